@@ -0,0 +1,71 @@
+import * as vscode from "vscode";
+import {
+  getProtectedCallbacks,
+  isTestLikeCall,
+  ProcessorConfig,
+  ProtectedCallbackInfo,
+} from "./processor";
+
+export const DEBUG_FROM_HERE_COMMAND = "mocha-debug-helper.debugFromHere";
+export const RUN_TEST_COMMAND = "mocha-debug-helper.runTest";
+
+function isEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration("narukami-dev.mochaTestDebugHelper")
+    .get<boolean>("codeLens.enabled", true);
+}
+
+export class ProtectedCallCodeLensProvider implements vscode.CodeLensProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(
+    private readonly getConfig: (document: vscode.TextDocument) => ProcessorConfig,
+  ) {}
+
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!isEnabled()) {
+      return [];
+    }
+
+    let callbacks: ProtectedCallbackInfo[];
+    try {
+      callbacks = getProtectedCallbacks(document.getText(), this.getConfig(document));
+    } catch {
+      // Invalid settings are reported by marker diagnostics and on save.
+      return [];
+    }
+
+    const lenses: vscode.CodeLens[] = [];
+    for (const callback of callbacks) {
+      const range = new vscode.Range(callback.startLine, 0, callback.startLine, 0);
+      lenses.push(
+        new vscode.CodeLens(range, {
+          title: "Debug from here",
+          command: DEBUG_FROM_HERE_COMMAND,
+          arguments: [document.uri, callback.startLine],
+        }),
+      );
+      // Hook and step titles match no Mocha test, so they get no run lens.
+      if (isTestLikeCall(callback)) {
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title: "Run this test",
+            command: RUN_TEST_COMMAND,
+            arguments: [document.uri, callback.titlePath],
+          }),
+        );
+      }
+    }
+    return lenses;
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
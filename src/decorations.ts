@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+import { MarkerAnalysisCache } from "./markerAnalysis";
+import { ProtectionSource, TransformReport } from "./processor";
+
+const DECORATION_DEBOUNCE_MS = 300;
+
+const PROTECTION_SOURCE_LABELS: Record<ProtectionSource, string> = {
+  ast: "protected call header/closure",
+  regex: "protected call line (regex fallback)",
+  allowlist: "protected declaration (function allowlist)",
+  rule: "protection rule",
+  reference: "declaration used at or after the marker",
+  keep: "kept by //@keep annotation",
+  marker: "kept by marker option",
+};
+
+function createGutterIcon(color: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="5" y="0" width="4" height="16" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`);
+}
+
+function isEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration("narukami-dev.mochaTestDebugHelper")
+    .get<boolean>("showTransformDecorations", true);
+}
+
+export function getTransformDecorationRanges(
+  document: vscode.TextDocument,
+  report: TransformReport,
+): { changed: vscode.DecorationOptions[]; protected: vscode.DecorationOptions[] } {
+  const changedMessage =
+    report.mode === "undebug" ? "Will be uncommented on save" : "Will be commented on save";
+  const changed = report.changedLines.map((line) => ({
+    range: document.lineAt(line).range,
+    hoverMessage: changedMessage,
+  }));
+
+  const ruleByLine = new Map(report.ruleMatches.map((match) => [match.line, match.rule]));
+  const protectedRanges: vscode.DecorationOptions[] = [];
+  for (const source of Object.keys(PROTECTION_SOURCE_LABELS) as ProtectionSource[]) {
+    for (const line of report.protectedLines[source]) {
+      const rule = ruleByLine.get(line);
+      protectedRanges.push({
+        range: document.lineAt(line).range,
+        hoverMessage: `Kept on save: ${PROTECTION_SOURCE_LABELS[source]}${rule ? ` ${rule}` : ""}`,
+      });
+    }
+  }
+
+  return { changed, protected: protectedRanges };
+}
+
+export function registerTransformDecorations(
+  languageIds: Set<string>,
+  analyses: MarkerAnalysisCache,
+): vscode.Disposable {
+  const changedDecoration = vscode.window.createTextEditorDecorationType({
+    gutterIconPath: createGutterIcon("#e51400"),
+    gutterIconSize: "contain",
+    overviewRulerColor: new vscode.ThemeColor("editorOverviewRuler.deletedForeground"),
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+  });
+  const protectedDecoration = vscode.window.createTextEditorDecorationType({
+    gutterIconPath: createGutterIcon("#388a34"),
+    gutterIconSize: "contain",
+  });
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  const clear = (editor: vscode.TextEditor): void => {
+    editor.setDecorations(changedDecoration, []);
+    editor.setDecorations(protectedDecoration, []);
+  };
+
+  const refresh = (editor: vscode.TextEditor): void => {
+    const document = editor.document;
+    if (!languageIds.has(document.languageId)) {
+      return;
+    }
+
+    if (!isEnabled()) {
+      clear(editor);
+      return;
+    }
+
+    try {
+      // Shares the analysis of this document version with diagnostics. Marker and settings
+      // problems leave no report; diagnostics report them and no preview is shown meanwhile.
+      const report = analyses.get(document).report;
+      if (!report) {
+        clear(editor);
+        return;
+      }
+      const ranges = getTransformDecorationRanges(document, report);
+      editor.setDecorations(changedDecoration, ranges.changed);
+      editor.setDecorations(protectedDecoration, ranges.protected);
+    } catch {
+      // Unexpected parse failures show no preview until the next edit.
+      clear(editor);
+    }
+  };
+
+  const refreshDocument = (document: vscode.TextDocument): void => {
+    const key = document.uri.toString();
+    clearTimeout(pending.get(key));
+    pending.set(
+      key,
+      setTimeout(() => {
+        pending.delete(key);
+        vscode.window.visibleTextEditors
+          .filter((editor) => editor.document.uri.toString() === key)
+          .forEach(refresh);
+      }, DECORATION_DEBOUNCE_MS),
+    );
+  };
+
+  vscode.window.visibleTextEditors.forEach(refresh);
+
+  return vscode.Disposable.from(
+    changedDecoration,
+    protectedDecoration,
+    vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach(refresh)),
+    vscode.workspace.onDidChangeTextDocument((event) => refreshDocument(event.document)),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("narukami-dev.mochaTestDebugHelper")) {
+        vscode.window.visibleTextEditors.forEach(refresh);
+      }
+    }),
+    new vscode.Disposable(() => {
+      pending.forEach((timeout) => clearTimeout(timeout));
+      pending.clear();
+    }),
+  );
+}
@@ -0,0 +1,236 @@
+import * as vscode from "vscode";
+import { isMarkerLine, MarkerAnalysisCache } from "./markerAnalysis";
+import {
+  DEBUG_TAG,
+  getLeadingWhitespace,
+  MarkerProblem,
+  MarkerProblemKind,
+  ProtectedCallbackInfo,
+} from "./processor";
+
+export const DIAGNOSTIC_SOURCE = "Mocha Debug Helper";
+const DIAGNOSTIC_DEBOUNCE_MS = 300;
+
+/**
+ * Indentation for a marker inserted as the first line of a callback body: the first
+ * non-empty body line's indentation, or the call line's indentation plus two spaces.
+ */
+export function getCallbackBodyIndent(
+  document: vscode.TextDocument,
+  callback: ProtectedCallbackInfo,
+): string {
+  for (let line = callback.bodyStartLine + 1; line < callback.bodyEndLine; line += 1) {
+    const text = document.lineAt(line).text;
+    if (text.trim().length > 0) {
+      return getLeadingWhitespace(text);
+    }
+  }
+  return `${getLeadingWhitespace(document.lineAt(callback.startLine).text)}  `;
+}
+
+function getProblemSeverity(kind: MarkerProblemKind): vscode.DiagnosticSeverity {
+  switch (kind) {
+    case "duplicate-marker":
+    case "conflicting-markers":
+    case "invalid-marker-option":
+    case "invalid-configuration":
+      return vscode.DiagnosticSeverity.Error;
+    case "rule-match":
+      return vscode.DiagnosticSeverity.Hint;
+    default:
+      return vscode.DiagnosticSeverity.Warning;
+  }
+}
+
+function createDiagnostic(
+  document: vscode.TextDocument,
+  problem: MarkerProblem,
+): vscode.Diagnostic {
+  const line = document.lineAt(problem.line);
+  const range = new vscode.Range(
+    problem.line,
+    line.firstNonWhitespaceCharacterIndex,
+    problem.line,
+    line.text.length,
+  );
+  const diagnostic = new vscode.Diagnostic(range, problem.message, getProblemSeverity(problem.kind));
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+  diagnostic.code = problem.kind;
+  return diagnostic;
+}
+
+export function computeMarkerDiagnostics(
+  document: vscode.TextDocument,
+  analyses: MarkerAnalysisCache,
+): vscode.Diagnostic[] {
+  return analyses.get(document).problems.map((problem) => createDiagnostic(document, problem));
+}
+
+export class MarkerCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private readonly analyses: MarkerAnalysisCache) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+        continue;
+      }
+
+      const kind = diagnostic.code as MarkerProblemKind;
+      const markerLine = diagnostic.range.start.line;
+      if (kind === "invalid-configuration" || kind === "rule-match") {
+        continue;
+      }
+      if (kind === "duplicate-marker" || kind === "conflicting-markers") {
+        actions.push(this.createRemoveOtherMarkersAction(document, markerLine, diagnostic));
+        continue;
+      }
+      if (kind === "invalid-marker-option") {
+        actions.push(this.createRemoveMarkerOptionsAction(document, markerLine, diagnostic));
+        continue;
+      }
+
+      const moveAction = this.createMoveMarkerAction(document, markerLine, diagnostic);
+      if (moveAction) {
+        actions.push(moveAction);
+      }
+    }
+
+    return actions;
+  }
+
+  private createRemoveOtherMarkersAction(
+    document: vscode.TextDocument,
+    keepLine: number,
+    diagnostic: vscode.Diagnostic,
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction("Remove other markers", vscode.CodeActionKind.QuickFix);
+    const edit = new vscode.WorkspaceEdit();
+    for (let line = 0; line < document.lineCount; line += 1) {
+      if (line !== keepLine && isMarkerLine(document.lineAt(line).text)) {
+        edit.delete(document.uri, document.lineAt(line).rangeIncludingLineBreak);
+      }
+    }
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+  }
+
+  private createRemoveMarkerOptionsAction(
+    document: vscode.TextDocument,
+    markerLine: number,
+    diagnostic: vscode.Diagnostic,
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction("Remove invalid options", vscode.CodeActionKind.QuickFix);
+    const line = document.lineAt(markerLine);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      document.uri,
+      new vscode.Range(markerLine, line.firstNonWhitespaceCharacterIndex, markerLine, line.text.length),
+      DEBUG_TAG,
+    );
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+  }
+
+  private createMoveMarkerAction(
+    document: vscode.TextDocument,
+    markerLine: number,
+    diagnostic: vscode.Diagnostic,
+  ): vscode.CodeAction | undefined {
+    let nearest: ProtectedCallbackInfo | undefined;
+    try {
+      nearest = this.analyses.get(document).moveTarget;
+    } catch {
+      return undefined;
+    }
+    if (!nearest) {
+      return undefined;
+    }
+
+    const markerText = document.lineAt(markerLine).text.trim();
+    const action = new vscode.CodeAction(
+      `Move marker into nearest ${nearest.name}()`,
+      vscode.CodeActionKind.QuickFix,
+    );
+    const edit = new vscode.WorkspaceEdit();
+    edit.delete(document.uri, document.lineAt(markerLine).rangeIncludingLineBreak);
+    edit.insert(
+      document.uri,
+      new vscode.Position(nearest.bodyStartLine + 1, 0),
+      `${getCallbackBodyIndent(document, nearest)}${markerText}\n`,
+    );
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    return action;
+  }
+}
+
+export function registerMarkerDiagnostics(
+  languageIds: Set<string>,
+  analyses: MarkerAnalysisCache,
+): vscode.Disposable {
+  const collection = vscode.languages.createDiagnosticCollection("mocha-debug-helper");
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  const refresh = (document: vscode.TextDocument): void => {
+    if (!languageIds.has(document.languageId)) {
+      return;
+    }
+    try {
+      collection.set(document.uri, computeMarkerDiagnostics(document, analyses));
+    } catch {
+      // Unexpected parse failures keep the last diagnostics until the next edit.
+    }
+  };
+
+  const scheduleRefresh = (document: vscode.TextDocument): void => {
+    const key = document.uri.toString();
+    clearTimeout(pending.get(key));
+    pending.set(
+      key,
+      setTimeout(() => {
+        pending.delete(key);
+        refresh(document);
+      }, DIAGNOSTIC_DEBOUNCE_MS),
+    );
+  };
+
+  vscode.workspace.textDocuments.forEach(refresh);
+
+  const selector = [...languageIds].map((language) => ({ language }));
+  return vscode.Disposable.from(
+    collection,
+    vscode.workspace.onDidOpenTextDocument(refresh),
+    vscode.workspace.onDidChangeTextDocument((event) => scheduleRefresh(event.document)),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      clearTimeout(pending.get(document.uri.toString()));
+      pending.delete(document.uri.toString());
+      collection.delete(document.uri);
+    }),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("narukami-dev.mochaTestDebugHelper")) {
+        vscode.workspace.textDocuments.forEach(refresh);
+      }
+    }),
+    vscode.languages.registerCodeActionsProvider(
+      selector,
+      new MarkerCodeActionProvider(analyses),
+      { providedCodeActionKinds: MarkerCodeActionProvider.providedCodeActionKinds },
+    ),
+    new vscode.Disposable(() => {
+      pending.forEach((timeout) => clearTimeout(timeout));
+      pending.clear();
+    }),
+  );
+}
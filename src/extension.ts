@@ -1,21 +1,65 @@
+import * as path from "node:path";
 import * as vscode from "vscode";
 import {
+  computeTransformReport,
+  DEBUG_TAG,
+  DEFAULT_COMMENT_PREFIX,
   DEFAULT_FUNCTION_ALLOWLIST,
+  DEFAULT_PROTECTED_DECORATORS,
   DEFAULT_PROTECTED_FUNCTIONS,
+  getDebugTransformSafetyIssues,
+  getLeadingWhitespace,
+  getProtectedCallbacks,
+  getScriptFileKind,
+  getTestTitlePathAt,
+  isDebugMarkerLine,
+  NO_OP_REASON_DESCRIPTIONS,
   processFileOnSave,
+  ProcessorConfig,
+  ProtectionRule,
+  TransformReport,
+  TransformSafetyError,
+  UNDEBUG_TAG,
 } from "./processor";
+import {
+  DEBUG_FROM_HERE_COMMAND,
+  ProtectedCallCodeLensProvider,
+  RUN_TEST_COMMAND,
+} from "./codeLens";
+import { registerTransformDecorations } from "./decorations";
+import { getCallbackBodyIndent, registerMarkerDiagnostics } from "./diagnostics";
+import { MarkerAnalysisCache } from "./markerAnalysis";
+import {
+  closePreviewTabs,
+  getPreviewUri,
+  PREVIEW_SCHEME,
+  TransformPreviewContentProvider,
+} from "./preview";
+import { clearPresetCache, getPresetProtectedFunctions } from "./presets";
+import { getConfiguredDebounceMs, getConfiguredRunPolicy, ScriptRunCoordinator } from "./runCoordinator";
 import {
   buildScriptCommand,
+  findScriptProfile,
+  formatScriptEnvForLog,
+  getConfiguredMaskPatterns,
   getConfiguredScriptCommand,
+  getConfiguredScriptEnv,
+  getConfiguredScriptPath,
+  getConfiguredScriptProfiles,
+  getConfiguredScriptTimeoutMs,
+  loadDotEnvFile,
   runScriptCommand as executeScriptCommand,
   ScriptExecutionError,
+  ScriptRunnerProfile,
   shouldRunOnSaveForFile,
+  usesScriptPlaceholder,
 } from "./scriptRunner";
+import { clearWrapperCache, discoverWrapperFunctions } from "./wrappers";
 
-const DEBUG_TAG = "//@debug";
-const UNDEBUG_TAG = "//@undebug";
-const MARKER_LANGS = new Set(["javascript", "typescript"]);
+const MARKER_LANGS = new Set(["javascript", "typescript", "javascriptreact", "typescriptreact"]);
 const SCRIPT_RUNNER_OUTPUT_CHANNEL = "Mocha Test Debug Helper";
+const TEST_TITLE_ENV_VAR = "MOCHA_DEBUG_HELPER_TEST_TITLE";
+const CANCEL_SCRIPT_RUN_COMMAND = "mocha-debug-helper.cancelScriptRun";
 
 type ExtensionTestHooks = {
   createOutputChannel?: (name: string) => vscode.OutputChannel;
@@ -27,9 +71,197 @@ export function __setTestHooks(hooks?: ExtensionTestHooks): void {
   extensionTestHooks = hooks;
 }
 
-function getLeadingWhitespace(text: string): string {
-  const match = text.match(/^\s*/);
-  return match ? match[0] : "";
+function getProcessorConfig(document: vscode.TextDocument): ProcessorConfig {
+  const config = vscode.workspace.getConfiguration(
+    "narukami-dev.mochaTestDebugHelper",
+    document.uri,
+  );
+  const configuredProtectedFunctions = config.get<string[]>(
+    "protectedFunctions",
+    DEFAULT_PROTECTED_FUNCTIONS,
+  );
+  const presetProtectedFunctions =
+    document.uri.scheme === "file"
+      ? getPresetProtectedFunctions(
+          config.get<unknown>("preset", "auto"),
+          document.uri.fsPath,
+          vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath,
+        )
+      : [];
+  const protectedFunctions = [
+    ...new Set([...configuredProtectedFunctions, ...presetProtectedFunctions]),
+  ];
+  const wrapperFunctions =
+    document.uri.scheme === "file" && config.get<boolean>("discoverWrappers", false)
+      ? discoverWrapperFunctions(
+          document.uri.fsPath,
+          document.getText(),
+          protectedFunctions,
+          vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath,
+        )
+      : [];
+  return {
+    protectedFunctions: [...new Set([...protectedFunctions, ...wrapperFunctions])],
+    protectedDecorators: config.get<string[]>("protectedDecorators", DEFAULT_PROTECTED_DECORATORS),
+    functionAllowlist: config.get<string[]>("functionAllowlist", DEFAULT_FUNCTION_ALLOWLIST),
+    commentPrefix: config.get<string>("commentPrefix", DEFAULT_COMMENT_PREFIX),
+    stripLegacyCommentPrefix: config.get<boolean>("stripLegacyCommentPrefix", false),
+    keepReferencedDeclarations: config.get<boolean>("keepReferencedDeclarations", false),
+    protectionRules: config.get<ProtectionRule[]>("protectionRules", []),
+    fileKind: getScriptFileKind(document.uri.path, document.languageId),
+  };
+}
+
+function formatLineList(lines: number[]): string {
+  return lines.length > 0 ? lines.map((line) => line + 1).join(", ") : "-";
+}
+
+function formatTransformReport(report: TransformReport): string[] {
+  const output: string[] = [];
+  if (report.mode !== undefined && report.markerLine !== undefined) {
+    output.push(`Mode: ${report.mode} (marker at line ${report.markerLine + 1})`);
+  }
+  if (report.processingStartLine !== undefined) {
+    output.push(`Processing starts at line ${report.processingStartLine + 1}`);
+  }
+  output.push(
+    `${report.mode === "undebug" ? "Uncommented" : "Commented"} lines: ${formatLineList(report.changedLines)}`,
+  );
+  output.push(`Protected by AST: ${formatLineList(report.protectedLines.ast)}`);
+  output.push(`Protected by regex: ${formatLineList(report.protectedLines.regex)}`);
+  output.push(`Protected by allowlist: ${formatLineList(report.protectedLines.allowlist)}`);
+  output.push(
+    `Protected by rule: ${
+      report.ruleMatches.length > 0
+        ? report.ruleMatches.map((match) => `${match.line + 1} (${match.rule})`).join(", ")
+        : "-"
+    }`,
+  );
+  output.push(`Protected by reference: ${formatLineList(report.protectedLines.reference)}`);
+  output.push(`Protected by keep annotation: ${formatLineList(report.protectedLines.keep)}`);
+  output.push(`Protected by marker option: ${formatLineList(report.protectedLines.marker)}`);
+  if (report.noOpReason) {
+    output.push(`No change: ${NO_OP_REASON_DESCRIPTIONS[report.noOpReason]}`);
+  }
+  return output;
+}
+
+function explainTransform(document: vscode.TextDocument, outputChannel: vscode.OutputChannel): void {
+  const timestamp = new Date().toISOString();
+  outputChannel.appendLine(`[${timestamp}] Debug transform report for: ${document.uri.fsPath}`);
+  try {
+    const report = computeTransformReport(document.getText(), getProcessorConfig(document));
+    for (const line of formatTransformReport(report)) {
+      outputChannel.appendLine(line);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    outputChannel.appendLine(`Error: ${message}`);
+  } finally {
+    outputChannel.appendLine("---");
+    outputChannel.show(true);
+  }
+}
+
+async function showDebugHelperError(
+  error: unknown,
+  document: vscode.TextDocument,
+  outputChannel: vscode.OutputChannel,
+): Promise<void> {
+  if (error instanceof TransformSafetyError) {
+    outputChannel.appendLine(`Debug transform refused for: ${document.uri.fsPath}`);
+    for (const issue of error.issues) {
+      outputChannel.appendLine(`  line ${issue.line}: ${issue.reason}`);
+    }
+    outputChannel.appendLine("---");
+    outputChannel.show(true);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  await vscode.window.showErrorMessage(`Debug Helper Error: ${message}`);
+}
+
+async function previewTransform(
+  document: vscode.TextDocument,
+  previewProvider: TransformPreviewContentProvider,
+  skipNextSaveForDocument: Set<string>,
+): Promise<void> {
+  const config = getProcessorConfig(document);
+  const originalText = document.getText();
+  const report = computeTransformReport(originalText, config);
+  if (report.noOpReason) {
+    await vscode.window.showInformationMessage(
+      `Debug transform would not change this file. ${NO_OP_REASON_DESCRIPTIONS[report.noOpReason]}`,
+    );
+    return;
+  }
+
+  const previewUri = getPreviewUri(document.uri);
+  const relativePath = vscode.workspace.asRelativePath(document.uri);
+  previewProvider.setContent(previewUri, report.text);
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    document.uri,
+    previewUri,
+    `${relativePath} (${report.mode} preview)`,
+    { preview: true },
+  );
+
+  const safetyIssues = getDebugTransformSafetyIssues(originalText, report.text, config);
+  const prompt =
+    safetyIssues.length > 0
+      ? `Debug transform cannot be cleanly reversed (line ${safetyIssues.map((issue) => issue.line).join(", ")}). Apply will be refused.`
+      : `Apply ${report.mode} transform to ${relativePath}?`;
+  const choice = await vscode.window.showInformationMessage(prompt, "Apply", "Discard");
+
+  await closePreviewTabs(previewUri);
+  previewProvider.deleteContent(previewUri);
+  if (choice !== "Apply") {
+    return;
+  }
+
+  if (document.getText() !== originalText) {
+    await vscode.window.showErrorMessage(
+      "File changed since the preview was opened. Run the preview again.",
+    );
+    return;
+  }
+
+  const didChange = await processFileOnSave(document, config);
+  if (didChange) {
+    skipNextSaveForDocument.add(document.uri.toString());
+    await document.save();
+  }
+}
+
+async function debugFromHere(uri: vscode.Uri, callStartLine: number): Promise<void> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const editor = await vscode.window.showTextDocument(document);
+
+  for (let line = 0; line < document.lineCount; line += 1) {
+    const trimmed = document.lineAt(line).text.trim();
+    if (isDebugMarkerLine(trimmed) || trimmed === UNDEBUG_TAG) {
+      await vscode.window.showWarningMessage(
+        `File already has a marker at line ${line + 1}. Undebug and remove it before debugging from another block.`,
+      );
+      return;
+    }
+  }
+
+  const callback = getProtectedCallbacks(document.getText(), getProcessorConfig(document)).find(
+    (info) => info.startLine === callStartLine,
+  );
+  if (!callback) {
+    return;
+  }
+
+  const markerLine = callback.bodyStartLine + 1;
+  const indent = getCallbackBodyIndent(document, callback);
+  await editor.edit((builder) => {
+    builder.insert(new vscode.Position(markerLine, 0), `${indent}${DEBUG_TAG}\n`);
+  });
+  const cursor = new vscode.Position(markerLine, indent.length + DEBUG_TAG.length);
+  editor.selection = new vscode.Selection(cursor, cursor);
+  await document.save();
 }
 
 async function toggleDebugMarker(editor: vscode.TextEditor): Promise<void> {
@@ -43,7 +275,7 @@ async function toggleDebugMarker(editor: vscode.TextEditor): Promise<void> {
   let nextCursor: vscode.Position | undefined;
 
   await editor.edit((builder) => {
-    if (trimmed === DEBUG_TAG) {
+    if (isDebugMarkerLine(trimmed)) {
       const replacement = `${indent}${UNDEBUG_TAG}`;
       builder.replace(line.range, replacement);
       nextCursor = new vscode.Position(lineIndex, replacement.length);
@@ -76,11 +308,26 @@ async function toggleDebugMarker(editor: vscode.TextEditor): Promise<void> {
   }
 }
 
+// Line `${line}` and `${testTitle}` refer to: the `//@debug` marker, else the cursor.
+function getScriptTargetLine(document: vscode.TextDocument): number | undefined {
+  for (let line = 0; line < document.lineCount; line += 1) {
+    if (isDebugMarkerLine(document.lineAt(line).text)) {
+      return line;
+    }
+  }
+  const editor = vscode.window.activeTextEditor;
+  return editor?.document === document ? editor.selection.active.line : undefined;
+}
+
 async function runScriptForDocument(
   document: vscode.TextDocument,
   outputChannel: vscode.OutputChannel,
   options?: {
     showNoCommandError?: boolean;
+    testTitlePath?: string[];
+    profile?: ScriptRunnerProfile;
+    // Aborted by the run coordinator when a newer run replaces this one.
+    signal?: AbortSignal;
   },
 ): Promise<void> {
   const showNoCommandError = options?.showNoCommandError ?? true;
@@ -91,57 +338,130 @@ async function runScriptForDocument(
   }
 
   const config = vscode.workspace.getConfiguration("narukami-dev.mochaTestDebugHelper.scriptRunner");
-  const configuredCommand = getConfiguredScriptCommand(config.get<unknown>("command", ""));
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+  const filePath = document.uri.fsPath;
+  const workspaceFolderPath = workspaceFolder?.uri.fsPath;
+  const relativeFile = workspaceFolderPath ? path.relative(workspaceFolderPath, filePath) : undefined;
+  const profile =
+    options?.profile ??
+    findScriptProfile(
+      getConfiguredScriptProfiles(config.get<unknown>("profiles", [])),
+      relativeFile ?? filePath,
+    );
+  const configuredCommand =
+    profile?.command ?? getConfiguredScriptCommand(config.get<unknown>("command", ""));
+  const timeoutMs = getConfiguredScriptTimeoutMs(config.get<unknown>("timeoutSeconds", 0));
   if (!configuredCommand) {
     if (showNoCommandError) {
       await vscode.window.showErrorMessage(
-        "No script configured. Set 'narukami-dev.mochaTestDebugHelper.scriptRunner.command'.",
+        "No script configured. Set 'narukami-dev.mochaTestDebugHelper.scriptRunner.command' or a matching 'scriptRunner.profiles' entry.",
       );
     }
     return;
   }
 
-  const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
-  const filePath = document.uri.fsPath;
-  const command = buildScriptCommand(configuredCommand, filePath);
-  const cwd = workspaceFolder?.uri.fsPath;
+  // Relative `cwd` and `envFile` paths resolve against the workspace folder.
+  const baseDirectory = workspaceFolderPath ?? path.dirname(filePath);
+  const configuredCwd =
+    profile?.cwd ?? getConfiguredScriptPath(config.get<unknown>("cwd", ""), "scriptRunner.cwd");
+  const cwd = configuredCwd ? path.resolve(baseDirectory, configuredCwd) : workspaceFolderPath;
+  const envFile = getConfiguredScriptPath(config.get<unknown>("envFile", ""), "scriptRunner.envFile");
+  const testTitle = options?.testTitlePath?.join(" ");
+  // Later sources win: .env file, scriptRunner.env, profile env, then the CodeLens test title.
+  const env: Record<string, string> = {
+    ...(envFile ? await loadDotEnvFile(path.resolve(baseDirectory, envFile)) : {}),
+    ...getConfiguredScriptEnv(config.get<unknown>("env", {})),
+    ...profile?.env,
+    ...(testTitle ? { [TEST_TITLE_ENV_VAR]: testTitle } : {}),
+  };
+  const maskPatterns = getConfiguredMaskPatterns(config.get<unknown>("maskEnvPatterns", []));
+  const line = getScriptTargetLine(document);
+  const command = buildScriptCommand(configuredCommand, filePath, {
+    relativeFile,
+    line: line !== undefined ? line + 1 : undefined,
+    // Finding the title parses the file with the processor settings; only do it when used.
+    testTitle:
+      testTitle ??
+      (line !== undefined && usesScriptPlaceholder(configuredCommand, "testTitle")
+        ? getTestTitlePathAt(document.getText(), line, getProcessorConfig(document))?.join(" ")
+        : undefined),
+    workspaceFolder: workspaceFolderPath,
+  });
   const timestamp = new Date().toISOString();
 
   outputChannel.appendLine(`[${timestamp}] Running script for: ${filePath}`);
+  if (profile) {
+    outputChannel.appendLine(`Profile: ${profile.name}`);
+  }
+  if (testTitle) {
+    outputChannel.appendLine(`Test: ${testTitle} (${TEST_TITLE_ENV_VAR})`);
+  }
   outputChannel.appendLine(`Command: ${command}`);
+  if (cwd) {
+    outputChannel.appendLine(`Cwd: ${cwd}`);
+  }
+  const envLines = formatScriptEnvForLog(env, maskPatterns);
+  if (envLines.length > 0) {
+    outputChannel.appendLine(`Env: ${envLines.join(" ")}`);
+  }
+  outputChannel.show(true);
+
+  // Output is streamed as it arrives; remember whether the last chunk ended its line.
+  let atLineStart = true;
+  const appendOutput = (chunk: string) => {
+    outputChannel.append(chunk);
+    atLineStart = chunk.endsWith("\n");
+  };
+  const endOutputLine = () => {
+    if (!atLineStart) {
+      outputChannel.appendLine("");
+      atLineStart = true;
+    }
+  };
 
   try {
     const displayCommand =
       configuredCommand.length > 80 ? `${configuredCommand.slice(0, 77)}...` : configuredCommand;
-    const result = await vscode.window.withProgress(
+    await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: `Running script: ${displayCommand}`,
-        cancellable: false,
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        const onAbort = () => controller.abort();
+        options?.signal?.addEventListener("abort", onAbort);
+        if (options?.signal?.aborted) {
+          controller.abort();
+        }
+        try {
+          return await executeScriptCommand(command, cwd, env, {
+            timeoutMs,
+            signal: controller.signal,
+            onOutput: (_stream, chunk) => appendOutput(chunk),
+          });
+        } finally {
+          cancellation.dispose();
+          options?.signal?.removeEventListener("abort", onAbort);
+        }
       },
-      async () => executeScriptCommand(command, cwd),
     );
-    if (result.stdout.trim().length > 0) {
-      outputChannel.appendLine("stdout:");
-      outputChannel.append(result.stdout.endsWith("\n") ? result.stdout : `${result.stdout}\n`);
-    }
-    if (result.stderr.trim().length > 0) {
-      outputChannel.appendLine("stderr:");
-      outputChannel.append(result.stderr.endsWith("\n") ? result.stderr : `${result.stderr}\n`);
-    }
+    endOutputLine();
     outputChannel.appendLine("Script finished successfully.");
   } catch (error) {
+    endOutputLine();
+    if (error instanceof ScriptExecutionError && error.reason === "cancelled") {
+      outputChannel.appendLine("Script cancelled; process tree killed.");
+      return;
+    }
     if (error instanceof ScriptExecutionError) {
-      outputChannel.appendLine(`Script failed (exit code: ${error.exitCode ?? "unknown"}).`);
-      if (error.stdout.trim().length > 0) {
-        outputChannel.appendLine("stdout:");
-        outputChannel.append(error.stdout.endsWith("\n") ? error.stdout : `${error.stdout}\n`);
-      }
-      if (error.stderr.trim().length > 0) {
-        outputChannel.appendLine("stderr:");
-        outputChannel.append(error.stderr.endsWith("\n") ? error.stderr : `${error.stderr}\n`);
-      }
-      outputChannel.show(true);
+      outputChannel.appendLine(
+        error.reason === "timeout"
+          ? `${error.message} Process tree killed.`
+          : `Script failed (exit code: ${error.exitCode ?? "unknown"}).`,
+      );
       await vscode.window.showErrorMessage(
         `Script runner failed. Check '${SCRIPT_RUNNER_OUTPUT_CHANNEL}' output for details.`,
       );
@@ -174,6 +494,100 @@ export function activate(context: vscode.ExtensionContext): void {
     await toggleDebugMarker(editor);
   });
 
+  const packageJsonWatcher = vscode.workspace.createFileSystemWatcher("**/package.json");
+  packageJsonWatcher.onDidCreate(clearPresetCache);
+  packageJsonWatcher.onDidChange(clearPresetCache);
+  packageJsonWatcher.onDidDelete(clearPresetCache);
+
+  const markerAnalyses = new MarkerAnalysisCache(getProcessorConfig);
+  const markerDiagnostics = registerMarkerDiagnostics(MARKER_LANGS, markerAnalyses);
+  const transformDecorations = registerTransformDecorations(MARKER_LANGS, markerAnalyses);
+
+  const previewProvider = new TransformPreviewContentProvider();
+  const previewProviderRegistration = vscode.workspace.registerTextDocumentContentProvider(
+    PREVIEW_SCHEME,
+    previewProvider,
+  );
+
+  const previewCommand = vscode.commands.registerCommand(
+    "mocha-debug-helper.previewTransform",
+    async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || !MARKER_LANGS.has(editor.document.languageId)) {
+        return;
+      }
+
+      try {
+        await previewTransform(editor.document, previewProvider, skipNextSaveForDocument);
+      } catch (error) {
+        await showDebugHelperError(error, editor.document, outputChannel);
+      }
+    },
+  );
+
+  const explainCommand = vscode.commands.registerCommand(
+    "mocha-debug-helper.explainTransform",
+    () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        return;
+      }
+
+      explainTransform(editor.document, outputChannel);
+    },
+  );
+
+  const scriptRunStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+  scriptRunStatus.command = CANCEL_SCRIPT_RUN_COMMAND;
+  const runCoordinator = new ScriptRunCoordinator(
+    () =>
+      getConfiguredRunPolicy(
+        vscode.workspace
+          .getConfiguration("narukami-dev.mochaTestDebugHelper.scriptRunner")
+          .get<unknown>("runPolicy", "queue"),
+      ),
+    (state) => {
+      if (state.active === undefined) {
+        scriptRunStatus.hide();
+        return;
+      }
+      const queued = state.queued.length > 0 ? ` (+${state.queued.length} queued)` : "";
+      scriptRunStatus.text = `$(sync~spin) ${path.basename(state.active)}${queued}`;
+      scriptRunStatus.tooltip = `Running script for ${state.active}. Click to cancel.`;
+      scriptRunStatus.show();
+    },
+  );
+  const cancelScriptRunCommand = vscode.commands.registerCommand(CANCEL_SCRIPT_RUN_COMMAND, () =>
+    runCoordinator.cancelAll(),
+  );
+
+  const runScriptManually = async (
+    document: vscode.TextDocument,
+    testTitlePath?: string[],
+    profile?: ScriptRunnerProfile,
+  ): Promise<void> => {
+    try {
+      const key = document.uri.toString();
+      skipNextSaveScriptRunnerForDocument.add(key);
+      const didSave = await document.save();
+      if (!didSave) {
+        skipNextSaveScriptRunnerForDocument.delete(key);
+        return;
+      }
+      await runCoordinator.schedule(document.uri.fsPath, (signal) =>
+        runScriptForDocument(document, outputChannel, {
+          showNoCommandError: true,
+          testTitlePath,
+          profile,
+          signal,
+        }),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await vscode.window.showErrorMessage(`Script Runner Error: ${message}`);
+    }
+  };
+
   const runScriptCommand = vscode.commands.registerCommand(
     "mocha-debug-helper.runScriptForFocusedFile",
     async () => {
@@ -182,25 +596,86 @@ export function activate(context: vscode.ExtensionContext): void {
         return;
       }
 
+      await runScriptManually(editor.document);
+    },
+  );
+
+  const runScriptWithProfileCommand = vscode.commands.registerCommand(
+    "mocha-debug-helper.runScriptWithProfile",
+    async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        return;
+      }
+
+      let profiles: ScriptRunnerProfile[];
       try {
-        const key = editor.document.uri.toString();
-        skipNextSaveScriptRunnerForDocument.add(key);
-        const didSave = await editor.document.save();
-        if (!didSave) {
-          skipNextSaveScriptRunnerForDocument.delete(key);
-          return;
-        }
-        await runScriptForDocument(editor.document, outputChannel, {
-          showNoCommandError: true,
-        });
+        profiles = getConfiguredScriptProfiles(
+          vscode.workspace
+            .getConfiguration("narukami-dev.mochaTestDebugHelper.scriptRunner")
+            .get<unknown>("profiles", []),
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         await vscode.window.showErrorMessage(`Script Runner Error: ${message}`);
+        return;
       }
+      if (profiles.length === 0) {
+        await vscode.window.showErrorMessage(
+          "No script profiles configured. Add entries to 'narukami-dev.mochaTestDebugHelper.scriptRunner.profiles'.",
+        );
+        return;
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        profiles.map((profile) => ({
+          label: profile.name,
+          description: profile.glob,
+          detail: profile.command,
+          profile,
+        })),
+        { placeHolder: "Run the focused file with script profile" },
+      );
+      if (picked) {
+        await runScriptManually(editor.document, undefined, picked.profile);
+      }
+    },
+  );
+
+  const codeLensProvider = new ProtectedCallCodeLensProvider(getProcessorConfig);
+  const codeLensRegistration = vscode.languages.registerCodeLensProvider(
+    [...MARKER_LANGS].map((language) => ({ language })),
+    codeLensProvider,
+  );
+  const codeLensConfigListener = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration("narukami-dev.mochaTestDebugHelper")) {
+      codeLensProvider.refresh();
+    }
+  });
+
+  const debugFromHereCommand = vscode.commands.registerCommand(
+    DEBUG_FROM_HERE_COMMAND,
+    async (uri: vscode.Uri, callStartLine: number) => {
+      try {
+        await debugFromHere(uri, callStartLine);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await vscode.window.showErrorMessage(`Debug Helper Error: ${message}`);
+      }
+    },
+  );
+
+  const runTestCommand = vscode.commands.registerCommand(
+    RUN_TEST_COMMAND,
+    async (uri: vscode.Uri, testTitlePath: string[]) => {
+      const document = await vscode.workspace.openTextDocument(uri);
+      await runScriptManually(document, testTitlePath);
     },
   );
 
   const onSave = vscode.workspace.onDidSaveTextDocument(async (document) => {
+    // A saved helper module may add or remove discovered test wrappers.
+    clearWrapperCache();
     const key = document.uri.toString();
     let skipDebugProcessorForThisSave = false;
     if (skipNextSaveForDocument.has(key)) {
@@ -212,28 +687,14 @@ export function activate(context: vscode.ExtensionContext): void {
       const text = document.getText();
       if (text.includes(DEBUG_TAG) || text.includes(UNDEBUG_TAG)) {
         try {
-          const config = vscode.workspace.getConfiguration("narukami-dev.mochaTestDebugHelper");
-          const protectedFunctions = config.get<string[]>(
-            "protectedFunctions",
-            DEFAULT_PROTECTED_FUNCTIONS,
-          );
-          const functionAllowlist = config.get<string[]>(
-            "functionAllowlist",
-            DEFAULT_FUNCTION_ALLOWLIST,
-          );
-
-          const didChange = await processFileOnSave(document, {
-            protectedFunctions,
-            functionAllowlist,
-          });
+          const didChange = await processFileOnSave(document, getProcessorConfig(document));
           if (didChange) {
             skipNextSaveForDocument.add(key);
             await document.save();
             return;
           }
         } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          await vscode.window.showErrorMessage(`Debug Helper Error: ${message}`);
+          await showDebugHelperError(error, document, outputChannel);
         }
       }
     }
@@ -261,16 +722,49 @@ export function activate(context: vscode.ExtensionContext): void {
     }
 
     try {
-      await runScriptForDocument(document, outputChannel, {
-        showNoCommandError: false,
-      });
+      const outcome = await runCoordinator.schedule(
+        document.uri.fsPath,
+        (signal) =>
+          runScriptForDocument(document, outputChannel, {
+            showNoCommandError: false,
+            signal,
+          }),
+        getConfiguredDebounceMs(scriptRunnerConfig.get<unknown>("debounceMs", 300)),
+      );
+      if (outcome === "ignored") {
+        outputChannel.appendLine(
+          `Save-triggered run for ${document.uri.fsPath} skipped: another script is running.`,
+        );
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       await vscode.window.showErrorMessage(`Script Runner Error: ${message}`);
     }
   });
 
-  context.subscriptions.push(toggleCommand, runScriptCommand, onSave, outputChannel);
+  context.subscriptions.push(
+    toggleCommand,
+    packageJsonWatcher,
+    markerAnalyses,
+    markerDiagnostics,
+    transformDecorations,
+    previewCommand,
+    previewProvider,
+    previewProviderRegistration,
+    explainCommand,
+    runScriptCommand,
+    runScriptWithProfileCommand,
+    cancelScriptRunCommand,
+    scriptRunStatus,
+    runCoordinator,
+    codeLensProvider,
+    codeLensRegistration,
+    codeLensConfigListener,
+    debugFromHereCommand,
+    runTestCommand,
+    onSave,
+    outputChannel,
+  );
 }
 
 export function deactivate(): void { }
@@ -0,0 +1,85 @@
+import * as vscode from "vscode";
+import {
+  analyzeMarker,
+  DEBUG_TAG,
+  isDebugMarkerLine,
+  MarkerAnalysis,
+  MarkerProblem,
+  ProcessorConfig,
+  UNDEBUG_TAG,
+} from "./processor";
+
+export function isMarkerLine(text: string): boolean {
+  const trimmed = text.trim();
+  return isDebugMarkerLine(trimmed) || trimmed === UNDEBUG_TAG;
+}
+
+function findMarkerLine(document: vscode.TextDocument): number | undefined {
+  for (let line = 0; line < document.lineCount; line += 1) {
+    if (isMarkerLine(document.lineAt(line).text)) {
+      return line;
+    }
+  }
+  return undefined;
+}
+
+// Settings that cannot be read (e.g. an unknown preset) are reported on the marker.
+function getConfigurationProblems(
+  document: vscode.TextDocument,
+  message: string,
+): MarkerProblem[] {
+  const markerLine = findMarkerLine(document);
+  return markerLine === undefined ? [] : [{ kind: "invalid-configuration", line: markerLine, message }];
+}
+
+/**
+ * Marker analysis of open documents, computed once per document version and settings and
+ * shared by diagnostics, quick fixes and decorations.
+ */
+export class MarkerAnalysisCache implements vscode.Disposable {
+  private readonly entries = new Map<
+    string,
+    { version: number; configKey: string; analysis: MarkerAnalysis }
+  >();
+  private readonly closeListener = vscode.workspace.onDidCloseTextDocument((document) =>
+    this.entries.delete(document.uri.toString()),
+  );
+
+  constructor(
+    private readonly getConfig: (document: vscode.TextDocument) => ProcessorConfig,
+  ) {}
+
+  get(document: vscode.TextDocument): MarkerAnalysis {
+    const text = document.getText();
+    if (!text.includes(DEBUG_TAG) && !text.includes(UNDEBUG_TAG)) {
+      return { problems: [] };
+    }
+
+    let config: ProcessorConfig | undefined;
+    let configError: string | undefined;
+    try {
+      config = this.getConfig(document);
+    } catch (error) {
+      configError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Settings can change without an edit, so they are part of the cache key.
+    const key = document.uri.toString();
+    const configKey = config ? JSON.stringify(config) : `error:${configError}`;
+    const cached = this.entries.get(key);
+    if (cached && cached.version === document.version && cached.configKey === configKey) {
+      return cached.analysis;
+    }
+
+    const analysis: MarkerAnalysis = config
+      ? analyzeMarker(text, config)
+      : { problems: getConfigurationProblems(document, configError ?? "") };
+    this.entries.set(key, { version: document.version, configKey, analysis });
+    return analysis;
+  }
+
+  dispose(): void {
+    this.closeListener.dispose();
+    this.entries.clear();
+  }
+}
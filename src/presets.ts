@@ -0,0 +1,198 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export type PresetName = "mocha" | "jest" | "vitest" | "playwright" | "cypress" | "jasmine";
+
+export type PresetSetting = "auto" | "none" | PresetName;
+
+const PRESET_PROTECTED_FUNCTIONS: Record<PresetName, string[]> = {
+  mocha: [
+    "describe",
+    "describe.*",
+    "context",
+    "context.*",
+    "it",
+    "it.*",
+    "specify",
+    "specify.*",
+    "before",
+    "beforeEach",
+    "after",
+    "afterEach",
+  ],
+  jest: [
+    "describe",
+    "describe.*",
+    "fdescribe",
+    "xdescribe",
+    "test",
+    "test.*",
+    "xtest",
+    "it",
+    "it.*",
+    "fit",
+    "xit",
+    "beforeAll",
+    "beforeEach",
+    "afterAll",
+    "afterEach",
+  ],
+  vitest: [
+    "describe",
+    "describe.*",
+    "suite",
+    "suite.*",
+    "test",
+    "test.*",
+    "it",
+    "it.*",
+    "bench",
+    "beforeAll",
+    "beforeEach",
+    "afterAll",
+    "afterEach",
+  ],
+  playwright: [
+    "test",
+    "test.*",
+    "test.describe.*",
+    "test.step.*",
+  ],
+  cypress: [
+    "describe",
+    "describe.*",
+    "context",
+    "context.*",
+    "it",
+    "it.*",
+    "specify",
+    "specify.*",
+    "before",
+    "beforeEach",
+    "after",
+    "afterEach",
+  ],
+  jasmine: [
+    "describe",
+    "fdescribe",
+    "xdescribe",
+    "it",
+    "fit",
+    "xit",
+    "beforeAll",
+    "beforeEach",
+    "afterAll",
+    "afterEach",
+  ],
+};
+
+const PRESET_DEPENDENCIES: Record<string, PresetName> = {
+  mocha: "mocha",
+  "@wdio/mocha-framework": "mocha",
+  jest: "jest",
+  vitest: "vitest",
+  "@playwright/test": "playwright",
+  cypress: "cypress",
+  jasmine: "jasmine",
+  "jasmine-core": "jasmine",
+  "@wdio/jasmine-framework": "jasmine",
+};
+
+const dependencyCache = new Map<string, string[]>();
+
+export function clearPresetCache(): void {
+  dependencyCache.clear();
+}
+
+export function getPresetNames(): PresetName[] {
+  return Object.keys(PRESET_PROTECTED_FUNCTIONS) as PresetName[];
+}
+
+export function detectPresets(dependencies: string[]): PresetName[] {
+  const presets = new Set<PresetName>();
+  for (const dependency of dependencies) {
+    const preset = PRESET_DEPENDENCIES[dependency];
+    if (preset) {
+      presets.add(preset);
+    }
+  }
+  return getPresetNames().filter((preset) => presets.has(preset));
+}
+
+/**
+ * Walks up from the file's directory to `rootDir` (inclusive) and returns the first
+ * existing file named one of `fileNames`.
+ */
+export function findNearestFile(
+  fileNames: string[],
+  filePath: string,
+  rootDir?: string,
+): string | undefined {
+  const stopDir = rootDir ? path.resolve(rootDir) : path.parse(filePath).root;
+  let dir = path.dirname(path.resolve(filePath));
+
+  while (true) {
+    for (const fileName of fileNames) {
+      const candidate = path.join(dir, fileName);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (dir === stopDir || parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// The nearest package.json, so monorepo packages get their own preset.
+export function findNearestPackageJson(filePath: string, rootDir?: string): string | undefined {
+  return findNearestFile(["package.json"], filePath, rootDir);
+}
+
+function readDependencies(packageJsonPath: string): string[] {
+  const cached = dependencyCache.get(packageJsonPath);
+  if (cached) {
+    return cached;
+  }
+
+  let dependencies: string[] = [];
+  try {
+    const manifest = JSON.parse(fs.readFileSync(packageJsonPath, "utf8")) as Record<string, unknown>;
+    dependencies = ["dependencies", "devDependencies", "peerDependencies"].flatMap((field) => {
+      const value = manifest[field];
+      return value && typeof value === "object" ? Object.keys(value) : [];
+    });
+  } catch {
+    // Unreadable or invalid manifests contribute no preset.
+  }
+
+  dependencyCache.set(packageJsonPath, dependencies);
+  return dependencies;
+}
+
+export function getPresetProtectedFunctions(
+  preset: unknown,
+  filePath: string,
+  rootDir?: string,
+): string[] {
+  if (preset === undefined || preset === null || preset === "none") {
+    return [];
+  }
+  if (typeof preset !== "string" || (preset !== "auto" && !(preset in PRESET_PROTECTED_FUNCTIONS))) {
+    throw new Error(
+      `Setting 'preset' must be one of: auto, none, ${getPresetNames().join(", ")}.`,
+    );
+  }
+
+  let presets: PresetName[];
+  if (preset === "auto") {
+    const packageJsonPath = findNearestPackageJson(filePath, rootDir);
+    presets = packageJsonPath ? detectPresets(readDependencies(packageJsonPath)) : [];
+  } else {
+    presets = [preset as PresetName];
+  }
+
+  return [...new Set(presets.flatMap((name) => PRESET_PROTECTED_FUNCTIONS[name]))];
+}
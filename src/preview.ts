@@ -0,0 +1,49 @@
+import * as vscode from "vscode";
+
+export const PREVIEW_SCHEME = "mocha-debug-helper-preview";
+
+export class TransformPreviewContentProvider implements vscode.TextDocumentContentProvider {
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? "";
+  }
+
+  setContent(uri: vscode.Uri, content: string): void {
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+  }
+
+  deleteContent(uri: vscode.Uri): void {
+    this.contents.delete(uri.toString());
+  }
+
+  dispose(): void {
+    this.contents.clear();
+    this.changeEmitter.dispose();
+  }
+}
+
+export function getPreviewUri(documentUri: vscode.Uri): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: PREVIEW_SCHEME,
+    path: documentUri.path,
+    query: documentUri.toString(),
+  });
+}
+
+export async function closePreviewTabs(previewUri: vscode.Uri): Promise<void> {
+  const key = previewUri.toString();
+  const tabs = vscode.window.tabGroups.all
+    .flatMap((group) => group.tabs)
+    .filter(
+      (tab) =>
+        tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === key,
+    );
+  if (tabs.length > 0) {
+    await vscode.window.tabGroups.close(tabs);
+  }
+}
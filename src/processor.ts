@@ -1,34 +1,192 @@
 
 import * as vscode from "vscode";
-import { Block, CallExpression, Node, Project, SourceFile, SyntaxKind } from "ts-morph";
-
-const DEBUG_TAG = "//@debug";
-const UNDEBUG_TAG = "//@undebug";
+import {
+  ArrowFunction,
+  CallExpression,
+  ClassDeclaration,
+  FunctionDeclaration,
+  FunctionExpression,
+  Identifier,
+  MethodDeclaration,
+  Node,
+  Project,
+  SourceFile,
+  SyntaxKind,
+  VariableStatement,
+} from "ts-morph";
+
+export const DEBUG_TAG = "//@debug";
+export const UNDEBUG_TAG = "//@undebug";
+const KEEP_TAG = "//@keep";
+const KEEP_START_TAG = "//@keep-start";
+const KEEP_END_TAG = "//@keep-end";
+const LABEL_TAG = "//@label";
+// `//@debug` optionally followed by options, e.g. `//@debug(keep-hooks, scope=test)`.
+const DEBUG_MARKER_PATTERN = /^\/\/@debug(?:\((.*)\))?$/;
+const MARKER_LABEL_PATTERN = /^[\w$-]+$/;
+const HOOK_NAME_PATTERN = /^(?:before|after)(?:Each|All)?$/;
 
 const DEFAULT_PROTECTED_FUNCTIONS = [
   "describe",
+  "describe.*",
   "before",
   "beforeEach",
   "test",
+  "test.*",
   "it",
+  "it.*",
   "after",
   "afterEach",
   "step",
 ];
 
+// mocha-typescript / testdeck decorators marking suite classes and test methods.
+const DEFAULT_PROTECTED_DECORATORS = ["suite", "suite.*", "test", "test.*", "params", "params.*"];
+
+const PROTECTED_FUNCTION_PATTERN = /^(?:[\w$*]+)(?:\.[\w$*]+)*$/;
+
 const DEFAULT_FUNCTION_ALLOWLIST: string[] = [];
 
-type Mode = "debug" | "undebug";
+const DEFAULT_COMMENT_PREFIX = "//@dbg ";
+
+export type Mode = "debug" | "undebug";
+
+// Extension of the in-memory file the text is parsed as; it selects TS/JS and JSX parsing.
+export type ScriptFileKind = "ts" | "tsx" | "mts" | "cts" | "js" | "jsx" | "mjs" | "cjs";
+
+const SCRIPT_FILE_KINDS = new Set<string>(["ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs"]);
+
+const LANGUAGE_FILE_KINDS: Record<string, ScriptFileKind> = {
+  typescript: "ts",
+  typescriptreact: "tsx",
+  javascript: "js",
+  javascriptreact: "jsx",
+};
+
+// `all` processes from the outermost protected body, `test` only the nearest one.
+export type MarkerScope = "all" | "test";
+
+export type MarkerOptions = {
+  keepHooks: boolean;
+  scope: MarkerScope;
+  from?: string;
+  skipSiblings: boolean;
+};
 
 type MarkerInfo = {
   mode: Mode;
   markerLine: number;
-  markerOffset: number;
+  options: MarkerOptions;
 };
 
+class MarkerOptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MarkerOptionError";
+  }
+}
+
 export type ProcessorConfig = {
   protectedFunctions: string[];
+  protectedDecorators: string[];
   functionAllowlist: string[];
+  commentPrefix: string;
+  stripLegacyCommentPrefix: boolean;
+  keepReferencedDeclarations: boolean;
+  protectionRules: ProtectionRule[];
+  fileKind: ScriptFileKind;
+};
+
+/**
+ * Statement selector of `protectionRules`:
+ * - `call`: expression statements calling a name or pattern, e.g. `this.timeout`, `*.setWindowSize`
+ * - `text`: regular expression tested against the statement text
+ * - `requires`: `require(...)`, dynamic `import(...)` and `import x = require(...)` statements
+ * - `inside`: calls with a callback and function declarations named like the pattern, kept whole
+ */
+export type ProtectionRule =
+  | { call: string }
+  | { text: string }
+  | { requires: true }
+  | { inside: string };
+
+export type TransformSafetyIssue = {
+  line: number;
+  reason: string;
+};
+
+export class TransformSafetyError extends Error {
+  readonly issues: TransformSafetyIssue[];
+
+  constructor(message: string, issues: TransformSafetyIssue[]) {
+    super(message);
+    this.name = "TransformSafetyError";
+    this.issues = issues;
+  }
+}
+
+export type ProtectionSource =
+  | "ast"
+  | "regex"
+  | "allowlist"
+  | "rule"
+  | "reference"
+  | "keep"
+  | "marker";
+
+export type TransformNoOpReason =
+  | "no-marker"
+  | "ambiguous-protected-call"
+  | "marker-outside-protected-callback"
+  | "nothing-eligible";
+
+/**
+ * Outcome of a debug/undebug transform. All line numbers are 0-based and only cover
+ * the processing range between `processingStartLine` and the marker.
+ */
+export type TransformReport = {
+  text: string;
+  mode?: Mode;
+  markerLine?: number;
+  processingStartLine?: number;
+  changedLines: number[];
+  protectedLines: Record<ProtectionSource, number[]>;
+  // Rule that protected each `rule` line, e.g. `call 'this.timeout'`.
+  ruleMatches: { line: number; rule: string }[];
+  noOpReason?: TransformNoOpReason;
+};
+
+export type MarkerProblemKind =
+  | "duplicate-marker"
+  | "conflicting-markers"
+  | "invalid-marker-option"
+  | "invalid-configuration"
+  | "marker-outside-protected-callback"
+  | "no-op-marker"
+  // Informational: a line kept by a `protectionRules` entry.
+  | "rule-match";
+
+export type MarkerProblem = {
+  kind: MarkerProblemKind;
+  line: number;
+  message: string;
+};
+
+export const NO_OP_REASON_DESCRIPTIONS: Record<TransformNoOpReason, string> = {
+  "no-marker": "No //@debug or //@undebug marker found.",
+  "ambiguous-protected-call":
+    "A protected call line before the marker could not be matched to a parsed callback (malformed or commented-out structure).",
+  "marker-outside-protected-callback": "Marker is not inside the callback body of a protected function.",
+  "nothing-eligible": "No eligible lines between the processing start line and the marker.",
+};
+
+// Matches a dotted callee name such as `describe.only` against protectedFunctions.
+type ProtectedFunctionMatcher = (calleeName: string) => boolean;
+
+type ImportAliases = {
+  // Local binding name -> imported name, e.g. `scenario` -> `it`.
+  named: Map<string, string>;
+  namespaces: Set<string>;
 };
 
 type LineRange = {
@@ -37,67 +195,313 @@ type LineRange = {
 };
 
 type ProtectedCallInfo = LineRange & {
+  name: string;
+  title?: string;
+  titlePath: string[];
   bodyStartLine?: number;
   bodyEndLine?: number;
 };
 
+export type ProtectedCallbackInfo = LineRange & {
+  name: string;
+  title?: string;
+  // Titles of enclosing titled protected calls, outermost first, ending with `title`.
+  titlePath: string[];
+  bodyStartLine: number;
+  bodyEndLine: number;
+};
+
 function getDefaultConfig(): ProcessorConfig {
   return {
     protectedFunctions: [...DEFAULT_PROTECTED_FUNCTIONS],
+    protectedDecorators: [...DEFAULT_PROTECTED_DECORATORS],
     functionAllowlist: [...DEFAULT_FUNCTION_ALLOWLIST],
+    commentPrefix: DEFAULT_COMMENT_PREFIX,
+    stripLegacyCommentPrefix: false,
+    keepReferencedDeclarations: false,
+    protectionRules: [],
+    fileKind: "ts",
   };
 }
 
+function normalizePatterns(values: string[], settingName: string): string[] {
+  const patterns = values.map((value) => value.trim()).filter((value) => value.length > 0);
+  for (const pattern of patterns) {
+    if (!PROTECTED_FUNCTION_PATTERN.test(pattern)) {
+      throw new Error(
+        `Setting '${settingName}' entry '${pattern}' must be a name or dotted pattern like 'describe.*' or '*.step'.`,
+      );
+    }
+  }
+  return patterns;
+}
+
+function normalizeRulePattern(pattern: string): string {
+  const [normalized] = normalizePatterns([String(pattern ?? "")], "protectionRules");
+  if (!normalized) {
+    throw new Error("Setting 'protectionRules' entries must not have an empty pattern.");
+  }
+  return normalized;
+}
+
+function normalizeProtectionRules(rules: ProtectionRule[]): ProtectionRule[] {
+  return rules.map((rule) => {
+    const keys = Object.keys(rule ?? {});
+    if (keys.length !== 1) {
+      throw new Error(
+        "Setting 'protectionRules' entries must have exactly one of 'call', 'text', 'requires' or 'inside'.",
+      );
+    }
+    if ("call" in rule) {
+      return { call: normalizeRulePattern(rule.call) };
+    }
+    if ("inside" in rule) {
+      return { inside: normalizeRulePattern(rule.inside) };
+    }
+    if ("text" in rule) {
+      try {
+        new RegExp(rule.text);
+      } catch (error) {
+        throw new Error(
+          `Setting 'protectionRules' text pattern '${rule.text}' is not a valid regular expression: ${(error as Error).message}`,
+        );
+      }
+      return rule;
+    }
+    if ("requires" in rule && rule.requires === true) {
+      return rule;
+    }
+    throw new Error(
+      `Setting 'protectionRules' entry '${keys[0]}' is not supported; use 'call', 'text', 'requires' or 'inside'.`,
+    );
+  });
+}
+
 function normalizeConfig(config?: Partial<ProcessorConfig>): ProcessorConfig {
   const defaults = getDefaultConfig();
 
-  const protectedFunctions = (config?.protectedFunctions ?? defaults.protectedFunctions)
-    .map((value) => value.trim())
-    .filter((value) => value.length > 0);
+  const protectedFunctions = normalizePatterns(
+    config?.protectedFunctions ?? defaults.protectedFunctions,
+    "protectedFunctions",
+  );
+  const protectedDecorators = normalizePatterns(
+    config?.protectedDecorators ?? defaults.protectedDecorators,
+    "protectedDecorators",
+  );
 
   const functionAllowlist = (config?.functionAllowlist ?? defaults.functionAllowlist)
     .map((value) => value.trim())
     .filter((value) => value.length > 0);
 
+  const commentPrefix = config?.commentPrefix ?? defaults.commentPrefix;
+  if (!commentPrefix.trimEnd().startsWith("//") || commentPrefix.trim() === "//") {
+    throw new Error("Setting 'commentPrefix' must start with '//' followed by a tag, e.g. '//@dbg '.");
+  }
+
   return {
     protectedFunctions,
+    protectedDecorators,
     functionAllowlist,
+    commentPrefix,
+    stripLegacyCommentPrefix:
+      config?.stripLegacyCommentPrefix ?? defaults.stripLegacyCommentPrefix,
+    keepReferencedDeclarations:
+      config?.keepReferencedDeclarations ?? defaults.keepReferencedDeclarations,
+    protectionRules: normalizeProtectionRules(config?.protectionRules ?? defaults.protectionRules),
+    fileKind: config?.fileKind ?? defaults.fileKind,
   };
 }
 
+/**
+ * Parse kind for a document: its own extension when it is a script extension
+ * (`.tsx`, `.mjs`...), otherwise derived from the language id (untitled buffers).
+ */
+export function getScriptFileKind(fileName: string, languageId?: string): ScriptFileKind {
+  const extension = fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+  if (fileName.includes(".") && SCRIPT_FILE_KINDS.has(extension)) {
+    return extension as ScriptFileKind;
+  }
+  return (languageId && LANGUAGE_FILE_KINDS[languageId]) || "ts";
+}
+
+function getParseFileName(config: ProcessorConfig): string {
+  return `temp.${config.fileKind}`;
+}
+
 function escapeRegex(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+// A whole-segment `*` matches one identifier; a `*` inside a segment matches any
+// identifier characters, e.g. `before*` matches `before` and `beforeEach`.
+function getProtectedFunctionSource(pattern: string, segmentSeparator: string): string {
+  return pattern
+    .split(".")
+    .map((segment) =>
+      segment === "*" ? "[\\w$]+" : segment.split("*").map(escapeRegex).join("[\\w$]*"),
+    )
+    .join(segmentSeparator);
+}
+
+function createProtectedFunctionMatcher(protectedFunctions: string[]): ProtectedFunctionMatcher {
+  const exactNames = new Set(protectedFunctions.filter((pattern) => !pattern.includes("*")));
+  const wildcardPatterns = protectedFunctions
+    .filter((pattern) => pattern.includes("*"))
+    .map((pattern) => new RegExp(`^${getProtectedFunctionSource(pattern, "\\.")}$`));
+
+  return (calleeName) =>
+    exactNames.has(calleeName) || wildcardPatterns.some((pattern) => pattern.test(calleeName));
+}
+
 function getProtectedCallLinePattern(protectedFunctions: string[]): RegExp | undefined {
   if (protectedFunctions.length === 0) {
     return undefined;
   }
 
-  const fnPart = protectedFunctions.map(escapeRegex).join("|");
+  const fnPart = protectedFunctions
+    .map((pattern) => getProtectedFunctionSource(pattern, "\\s*\\.\\s*"))
+    .join("|");
   return new RegExp(`^\\s*(?:\\/\\/+\\s*)?(?:await\\s+)?(?:${fnPart})\\s*\\(`);
 }
 
-function getLineStartOffsets(lines: string[], eol: string): number[] {
-  const offsets: number[] = [];
-  let running = 0;
-  for (const line of lines) {
-    offsets.push(running);
-    running += line.length + eol.length;
+function isRequireCall(node: Node | undefined): boolean {
+  if (!node) {
+    return false;
   }
-  return offsets;
+  const normalized = unwrapExpression(node);
+  return (
+    Node.isCallExpression(normalized) &&
+    Node.isIdentifier(normalized.getExpression()) &&
+    normalized.getExpression().getText() === "require"
+  );
 }
 
-function getMarkerInfo(text: string): MarkerInfo | undefined {
-  const lines = text.split(/\r?\n/);
-  const eol = text.includes("\r\n") ? "\r\n" : "\n";
-  const offsets = getLineStartOffsets(lines, eol);
+/**
+ * Collects renamed bindings of protected functions (`import { it as scenario }`,
+ * `const { it: scenario } = require(...)`) and namespace imports (`import * as m`).
+ */
+function getImportAliases(sourceFile: SourceFile): ImportAliases {
+  const aliases: ImportAliases = { named: new Map(), namespaces: new Set() };
+
+  for (const importDeclaration of sourceFile.getImportDeclarations()) {
+    const namespaceImport = importDeclaration.getNamespaceImport();
+    if (namespaceImport) {
+      aliases.namespaces.add(namespaceImport.getText());
+    }
+    for (const namedImport of importDeclaration.getNamedImports()) {
+      const aliasNode = namedImport.getAliasNode();
+      if (aliasNode) {
+        aliases.named.set(aliasNode.getText(), namedImport.getName());
+      }
+    }
+  }
+
+  for (const declaration of sourceFile.getVariableDeclarations()) {
+    const nameNode = declaration.getNameNode();
+    if (!isRequireCall(declaration.getInitializer())) {
+      continue;
+    }
+    if (Node.isIdentifier(nameNode)) {
+      aliases.namespaces.add(nameNode.getText());
+      continue;
+    }
+    if (!Node.isObjectBindingPattern(nameNode)) {
+      continue;
+    }
+    for (const element of nameNode.getElements()) {
+      const propertyName = element.getPropertyNameNode();
+      if (propertyName) {
+        aliases.named.set(element.getName(), propertyName.getText());
+      }
+    }
+  }
+
+  return aliases;
+}
+
+function withImportAliases(
+  isProtectedFunction: ProtectedFunctionMatcher,
+  aliases: ImportAliases,
+): ProtectedFunctionMatcher {
+  if (aliases.named.size === 0 && aliases.namespaces.size === 0) {
+    return isProtectedFunction;
+  }
+
+  return (calleeName) => {
+    if (isProtectedFunction(calleeName)) {
+      return true;
+    }
+
+    const dotIndex = calleeName.indexOf(".");
+    const head = dotIndex === -1 ? calleeName : calleeName.slice(0, dotIndex);
+    const rest = dotIndex === -1 ? "" : calleeName.slice(dotIndex);
+    const importedName = aliases.named.get(head);
+    if (importedName && isProtectedFunction(`${importedName}${rest}`)) {
+      return true;
+    }
+    return aliases.namespaces.has(head) && rest.length > 0 && isProtectedFunction(rest.slice(1));
+  };
+}
+
+export function createFileProtectedFunctionMatcher(
+  sourceFile: SourceFile,
+  protectedFunctions: string[],
+): ProtectedFunctionMatcher {
+  return withImportAliases(
+    createProtectedFunctionMatcher(protectedFunctions),
+    getImportAliases(sourceFile),
+  );
+}
+
+// Local alias names of protected functions, for the regex fallback.
+function getProtectedAliasNames(
+  aliases: ImportAliases,
+  isProtectedFunction: ProtectedFunctionMatcher,
+): string[] {
+  return [...aliases.named]
+    .filter(([, importedName]) => isProtectedFunction(importedName))
+    .map(([localName]) => localName);
+}
+
+/** Whether a line is a `//@debug` marker, with or without options. */
+export function isDebugMarkerLine(text: string): boolean {
+  return DEBUG_MARKER_PATTERN.test(text.trim());
+}
+
+function parseMarkerOptions(optionsText: string | undefined): MarkerOptions {
+  const options: MarkerOptions = { keepHooks: false, scope: "all", skipSiblings: false };
+  const entries = (optionsText ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  for (const entry of entries) {
+    const [name, value] = entry.split("=").map((part) => part.trim());
+    if (entry === "keep-hooks") {
+      options.keepHooks = true;
+    } else if (entry === "skip-siblings") {
+      options.skipSiblings = true;
+    } else if (name === "scope" && (value === "all" || value === "test")) {
+      options.scope = value;
+    } else if (name === "from" && value !== undefined && MARKER_LABEL_PATTERN.test(value)) {
+      options.from = value;
+    } else {
+      throw new MarkerOptionError(
+        `Unknown //@debug option '${entry}'. Supported options: keep-hooks, scope=test, scope=all, from=<label>, skip-siblings.`,
+      );
+    }
+  }
+
+  return options;
+}
+
+function findMarkerLines(lines: string[]): { debugLines: number[]; undebugLines: number[] } {
   const debugLines: number[] = [];
   const undebugLines: number[] = [];
 
   for (let i = 0; i < lines.length; i += 1) {
     const trimmed = lines[i].trim();
-    if (trimmed === DEBUG_TAG) {
+    if (DEBUG_MARKER_PATTERN.test(trimmed)) {
       debugLines.push(i);
     }
     if (trimmed === UNDEBUG_TAG) {
@@ -105,6 +509,13 @@ function getMarkerInfo(text: string): MarkerInfo | undefined {
     }
   }
 
+  return { debugLines, undebugLines };
+}
+
+function getMarkerInfo(text: string): MarkerInfo | undefined {
+  const lines = text.split(/\r?\n/);
+  const { debugLines, undebugLines } = findMarkerLines(lines);
+
   if (debugLines.length > 1) {
     throw new Error("Multiple //@debug tags found.");
   }
@@ -122,57 +533,247 @@ function getMarkerInfo(text: string): MarkerInfo | undefined {
     return {
       mode: "debug",
       markerLine: debugLines[0],
-      markerOffset: offsets[debugLines[0]],
+      options: parseMarkerOptions(lines[debugLines[0]].trim().match(DEBUG_MARKER_PATTERN)?.[1]),
     };
   }
 
+  // Undebug restores every tagged line, whatever options the debug marker had.
   return {
     mode: "undebug",
     markerLine: undebugLines[0],
-    markerOffset: offsets[undebugLines[0]],
+    options: parseMarkerOptions(undefined),
   };
 }
 
-function stripFirstCommentPrefixPerLine(text: string): string {
+function getUncommentPattern(commentPrefix: string): RegExp {
+  return new RegExp(`^(\\s*)${escapeRegex(commentPrefix)}(.*)$`);
+}
+
+// Reverses one level of tool commenting on a single line. Lines without the tag are
+// returned unchanged unless legacy bare `//` stripping is enabled for migration.
+function uncommentLine(line: string, config: ProcessorConfig): string | undefined {
+  const tagged = line.match(getUncommentPattern(config.commentPrefix));
+  if (tagged) {
+    return `${tagged[1]}${tagged[2]}`;
+  }
+
+  if (!config.stripLegacyCommentPrefix) {
+    return undefined;
+  }
+
+  const legacy = line.match(/^(\s*)\/\/(.*)$/);
+  if (!legacy) {
+    return undefined;
+  }
+  return `${legacy[1]}${legacy[2]}`;
+}
+
+function stripCommentPrefixPerLine(text: string, config: ProcessorConfig): string {
   return text
     .split(/\r?\n/)
-    .map((line) => line.replace(/^(\s*)\/\//, "$1"))
+    .map((line) => uncommentLine(line, config) ?? line)
     .join("\n");
 }
 
-function addProtectedRange(target: Set<number>, start: number, end: number): void {
+// 0-based lines from the compiler's cached line map. ts-morph's getStartLineNumber() and
+// getEndLineNumber() scan the text from the start of the file on every call.
+function getNodeStartLine(node: Node): number {
+  return node.getSourceFile().compilerNode.getLineAndCharacterOfPosition(node.getStart()).line;
+}
+
+function getNodeEndLine(node: Node): number {
+  return node.getSourceFile().compilerNode.getLineAndCharacterOfPosition(node.getEnd()).line;
+}
+
+function addProtectedRange(
+  target: Map<number, ProtectionSource>,
+  start: number,
+  end: number,
+  source: ProtectionSource,
+): void {
   for (let line = start; line <= end; line += 1) {
-    target.add(line);
+    if (!target.has(line)) {
+      target.set(line, source);
+    }
   }
 }
 
-function getProtectedCallbackBodyBlock(callExpression: CallExpression): Block | undefined {
-  const functionLikeArg = [...callExpression.getArguments()].find((arg) => {
-    return Node.isFunctionExpression(arg) || Node.isArrowFunction(arg);
-  });
+type CallbackFunction = ArrowFunction | FunctionExpression | FunctionDeclaration;
 
-  if (!functionLikeArg) {
-    return undefined;
+function isCallbackFunction(node: Node | undefined): node is CallbackFunction {
+  return (
+    node !== undefined &&
+    (Node.isArrowFunction(node) ||
+      Node.isFunctionExpression(node) ||
+      Node.isFunctionDeclaration(node))
+  );
+}
+
+/**
+ * Follows `it("x", handler)` / `before(setup)` to a function declared in an enclosing
+ * scope of this file. Scopes are searched syntactically, without the type checker.
+ */
+function resolveLocalCallbackFunction(identifier: Identifier): CallbackFunction | undefined {
+  const name = identifier.getText();
+  for (const scope of identifier.getAncestors()) {
+    if (!Node.isStatemented(scope)) {
+      continue;
+    }
+
+    const functionDeclaration = scope.getFunction(name);
+    if (functionDeclaration) {
+      return functionDeclaration.hasBody() ? functionDeclaration : undefined;
+    }
+
+    const variableDeclaration = scope.getVariableDeclaration(name);
+    if (variableDeclaration) {
+      const initializer = variableDeclaration.getInitializer();
+      const fn = initializer ? unwrapExpression(initializer) : undefined;
+      return Node.isArrowFunction(fn) || Node.isFunctionExpression(fn) ? fn : undefined;
+    }
+  }
+  return undefined;
+}
+
+function getProtectedCallbackFunction(
+  callExpression: CallExpression,
+): CallbackFunction | undefined {
+  const args = callExpression.getArguments();
+  const inlineFunction = args.find(
+    (arg): arg is ArrowFunction | FunctionExpression =>
+      Node.isFunctionExpression(arg) || Node.isArrowFunction(arg),
+  );
+  if (inlineFunction) {
+    return inlineFunction;
   }
 
-  if (Node.isFunctionExpression(functionLikeArg)) {
-    const body = functionLikeArg.getBody();
-    if (Node.isBlock(body)) {
-      return body;
+  for (const arg of args) {
+    const fn = Node.isIdentifier(arg) ? resolveLocalCallbackFunction(arg) : undefined;
+    if (fn) {
+      return fn;
     }
+  }
+  return undefined;
+}
+
+/**
+ * Lines between which a marker belongs to the callback: the `{` and `}` lines of a block
+ * body, or the `=>` line and last line of a concise body that starts on a later line.
+ */
+function getCallbackBodyRange(fn: CallbackFunction): LineRange | undefined {
+  const body = fn.getBody();
+  if (!body) {
+    return undefined;
+  }
+  if (Node.isBlock(body)) {
+    return { startLine: getNodeStartLine(body), endLine: getNodeEndLine(body) };
+  }
+  if (!Node.isArrowFunction(fn)) {
     return undefined;
   }
 
-  if (Node.isArrowFunction(functionLikeArg)) {
-    const body = functionLikeArg.getBody();
-    if (Node.isBlock(body)) {
-      return body;
+  const arrowLine = getNodeStartLine(fn.getEqualsGreaterThan());
+  const bodyEndLine = getNodeEndLine(body);
+  return getNodeStartLine(body) > arrowLine
+    ? { startLine: arrowLine, endLine: bodyEndLine }
+    : undefined;
+}
+
+// Local functions passed by name to protected calls, e.g. `shared` in `it("x", shared)`.
+function getReferencedCallbackFunctions(
+  sourceFile: SourceFile,
+  isProtectedFunction: ProtectedFunctionMatcher,
+): Set<CallbackFunction> {
+  const functions = new Set<CallbackFunction>();
+  for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    if (!getProtectedCallName(call, isProtectedFunction)) {
+      continue;
     }
+    const fn = getProtectedCallbackFunction(call);
+    if (fn && fn.getParent() !== call) {
+      functions.add(fn);
+    }
+  }
+  return functions;
+}
+
+function declaresReferencedCallback(
+  statement: VariableStatement,
+  referencedCallbacks: Set<CallbackFunction>,
+): boolean {
+  return statement.getDeclarations().some((declaration) => {
+    const initializer = declaration.getInitializer();
+    const fn = initializer ? unwrapExpression(initializer) : undefined;
+    return isCallbackFunction(fn) && referencedCallbacks.has(fn);
+  });
+}
+
+// The statement that declares a referenced callback, so `const fn = () => {` lines count as its header.
+function getCallbackDeclarationNode(fn: CallbackFunction): Node {
+  if (Node.isFunctionDeclaration(fn) || !Node.isVariableDeclaration(fn.getParent())) {
+    return fn;
   }
+  return fn.getFirstAncestorByKind(SyntaxKind.VariableStatement) ?? fn;
+}
 
+type ProtectedDecorator = {
+  name: string;
+  title?: string;
+};
+
+function getProtectedDecorator(
+  node: ClassDeclaration | MethodDeclaration,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+): ProtectedDecorator | undefined {
+  for (const decorator of node.getDecorators()) {
+    const expression = decorator.getExpression();
+    const call = Node.isCallExpression(expression) ? expression : undefined;
+    const name = getCalleeName(call ? call.getExpression() : expression);
+    if (name && isProtectedDecorator(name)) {
+      return { name, title: call ? getCallTitle(call) : undefined };
+    }
+  }
   return undefined;
 }
 
+// `@suite class LoginTests { ... }`: a class with a protected decorator acts like describe().
+function isSuiteClass(
+  node: Node | undefined,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+): node is ClassDeclaration {
+  return (
+    Node.isClassDeclaration(node) && getProtectedDecorator(node, isProtectedDecorator) !== undefined
+  );
+}
+
+/**
+ * Name of a suite class method that acts like a protected call: test methods carry a
+ * protected decorator (`@test login()`), hooks are named like a protected function
+ * (`before()`, `static after()`).
+ */
+function getProtectedMethodName(
+  method: MethodDeclaration,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+): string | undefined {
+  if (!isSuiteClass(method.getParent(), isProtectedDecorator)) {
+    return undefined;
+  }
+  const decorator = getProtectedDecorator(method, isProtectedDecorator);
+  if (decorator) {
+    return decorator.name;
+  }
+  return isProtectedFunction(method.getName()) ? method.getName() : undefined;
+}
+
+function getSuiteClassBodyRange(suiteClass: ClassDeclaration): LineRange {
+  const openBrace = suiteClass.getFirstChildByKindOrThrow(SyntaxKind.OpenBraceToken);
+  return {
+    startLine: getNodeStartLine(openBrace),
+    endLine: getNodeEndLine(suiteClass),
+  };
+}
+
 function unwrapExpression(node: Node): Node {
   let current = node;
   while (true) {
@@ -222,6 +823,98 @@ function getCallName(expression: Node): string | undefined {
   return undefined;
 }
 
+type ProtectionRuleMatcher = {
+  description: string;
+  matches: (statement: Node) => boolean;
+};
+
+// Like getCalleeName, but also accepts `this` receivers such as `this.timeout`.
+function getStatementCalleeName(expression: Node): string | undefined {
+  if (Node.isThisExpression(expression)) {
+    return "this";
+  }
+  if (Node.isPropertyAccessExpression(expression)) {
+    const objectName = getStatementCalleeName(expression.getExpression());
+    return objectName ? `${objectName}.${expression.getName()}` : undefined;
+  }
+  return getCalleeName(expression);
+}
+
+// Calls a statement consists of: the expression of an expression statement or the
+// initializers of a variable statement, with `await` and parentheses removed.
+function getStatementCalls(statement: Node): CallExpression[] {
+  const expressions = Node.isExpressionStatement(statement)
+    ? [statement.getExpression()]
+    : Node.isVariableStatement(statement)
+      ? statement.getDeclarations().flatMap((declaration) => declaration.getInitializer() ?? [])
+      : [];
+  return expressions
+    .map((expression) => unwrapExpression(expression))
+    .filter((expression): expression is CallExpression => Node.isCallExpression(expression));
+}
+
+function isRequireLikeStatement(statement: Node): boolean {
+  if (Node.isImportDeclaration(statement) || Node.isImportEqualsDeclaration(statement)) {
+    return true;
+  }
+  return getStatementCalls(statement).some(
+    (call) => isRequireCall(call) || call.getExpression().getKind() === SyntaxKind.ImportKeyword,
+  );
+}
+
+// Statements without nested statements; `call` and `text` rules never keep a whole block.
+function isLeafStatement(statement: Node): boolean {
+  return !statement.getFirstDescendant(
+    (descendant) => Node.isStatement(descendant) && !Node.isCommentNode(descendant),
+  );
+}
+
+function createProtectionRuleMatchers(rules: ProtectionRule[]): ProtectionRuleMatcher[] {
+  return rules.map((rule): ProtectionRuleMatcher => {
+    if ("call" in rule) {
+      const isMatch = createProtectedFunctionMatcher([rule.call]);
+      return {
+        description: `call '${rule.call}'`,
+        matches: (statement) =>
+          Node.isExpressionStatement(statement) &&
+          isLeafStatement(statement) &&
+          getStatementCalls(statement).some((call) => {
+            const calleeName = getStatementCalleeName(call.getExpression());
+            return calleeName !== undefined && isMatch(calleeName);
+          }),
+      };
+    }
+    if ("text" in rule) {
+      const pattern = new RegExp(rule.text);
+      return {
+        description: `text /${rule.text}/`,
+        matches: (statement) => isLeafStatement(statement) && pattern.test(statement.getText()),
+      };
+    }
+    if ("inside" in rule) {
+      const isMatch = createProtectedFunctionMatcher([rule.inside]);
+      return {
+        description: `inside '${rule.inside}'`,
+        matches: (statement) => {
+          if (Node.isFunctionDeclaration(statement)) {
+            const name = statement.getName();
+            return name !== undefined && isMatch(name);
+          }
+          return getStatementCalls(statement).some((call) => {
+            const calleeName = getStatementCalleeName(call.getExpression());
+            return (
+              calleeName !== undefined &&
+              isMatch(calleeName) &&
+              call.getArguments().some((argument) => isCallbackFunction(argument))
+            );
+          });
+        },
+      };
+    }
+    return { description: "requires", matches: isRequireLikeStatement };
+  });
+}
+
 function shouldProtectVariableStatement(
   node: Node,
   functionAllowlist: Set<string>,
@@ -254,82 +947,718 @@ function shouldProtectVariableStatement(
   return true;
 }
 
+function addSuiteClassProtectedLines(
+  target: Map<number, ProtectionSource>,
+  suiteClass: ClassDeclaration,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+): void {
+  const bodyRange = getSuiteClassBodyRange(suiteClass);
+  addProtectedRange(target, getNodeStartLine(suiteClass), bodyRange.startLine, "ast");
+  addProtectedRange(target, bodyRange.endLine, bodyRange.endLine, "ast");
+
+  // Only test and hook method bodies are processed; fields and helpers are structure.
+  for (const member of suiteClass.getMembers()) {
+    const memberStart = getNodeStartLine(member);
+    const memberEnd = getNodeEndLine(member);
+    const body =
+      Node.isMethodDeclaration(member) &&
+      getProtectedMethodName(member, isProtectedFunction, isProtectedDecorator)
+        ? member.getBody()
+        : undefined;
+    if (!Node.isBlock(body)) {
+      addProtectedRange(target, memberStart, memberEnd, "ast");
+      continue;
+    }
+    addProtectedRange(target, memberStart, getNodeStartLine(body), "ast");
+    addProtectedRange(target, getNodeEndLine(body), memberEnd, "ast");
+  }
+}
+
 function getProtectedLines(
   sourceFile: SourceFile,
-  protectedFunctions: Set<string>,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
   functionAllowlist: Set<string>,
-): Set<number> {
-  const protectedLines = new Set<number>();
+  referencedCallbacks: Set<CallbackFunction>,
+  protectionRules: ProtectionRuleMatcher[],
+  ruleMatches: Map<number, string>,
+): Map<number, ProtectionSource> {
+  const protectedLines = new Map<number, ProtectionSource>();
 
   sourceFile.forEachDescendant((node) => {
-    if (Node.isCallExpression(node)) {
-      const expression = node.getExpression();
-      if (Node.isIdentifier(expression)) {
-        const fnName = expression.getText();
-        if (protectedFunctions.has(fnName)) {
-          const callStart = node.getStartLineNumber() - 1;
-          const callEnd = node.getEndLineNumber() - 1;
-          const callbackBodyBlock = getProtectedCallbackBodyBlock(node);
-
-          if (!callbackBodyBlock) {
-            addProtectedRange(protectedLines, callStart, callEnd);
-            return;
-          }
+    if (isSuiteClass(node, isProtectedDecorator)) {
+      addSuiteClassProtectedLines(protectedLines, node, isProtectedFunction, isProtectedDecorator);
+      return;
+    }
 
-          const bodyStart = callbackBodyBlock.getStartLineNumber() - 1;
-          const bodyEnd = callbackBodyBlock.getEndLineNumber() - 1;
+    if (isTestGeneratingStatement(node, isProtectedFunction)) {
+      addTestGeneratingStatementLines(protectedLines, node, isProtectedFunction);
+      return;
+    }
 
-          // Protect call signature lines up to callback block opening line.
-          addProtectedRange(protectedLines, callStart, bodyStart);
-          // Protect callback close + trailing call closure lines (for multiline `});`).
-          addProtectedRange(protectedLines, bodyEnd, callEnd);
-        }
+    if (Node.isCallExpression(node) && getProtectedCallName(node, isProtectedFunction)) {
+      const callStart = getNodeStartLine(node);
+      const callEnd = getNodeEndLine(node);
+      const callbackFunction = getProtectedCallbackFunction(node);
+      const callbackBody = callbackFunction?.getBody();
+
+      // Concise bodies cannot be partially commented, and referenced functions are
+      // handled at their declaration below.
+      if (!Node.isBlock(callbackBody) || callbackFunction?.getParent() !== node) {
+        addProtectedRange(protectedLines, callStart, callEnd, "ast");
+        return;
+      }
+
+      const bodyStart = getNodeStartLine(callbackBody);
+      const bodyEnd = getNodeEndLine(callbackBody);
+
+      // Protect call signature lines up to callback block opening line.
+      addProtectedRange(protectedLines, callStart, bodyStart, "ast");
+      // Protect callback close + trailing call closure lines (for multiline `});`).
+      addProtectedRange(protectedLines, bodyEnd, callEnd, "ast");
+    }
+
+    if (isCallbackFunction(node) && referencedCallbacks.has(node)) {
+      const body = node.getBody();
+      if (Node.isBlock(body)) {
+        const declaration = getCallbackDeclarationNode(node);
+        addProtectedRange(
+          protectedLines,
+          getNodeStartLine(declaration),
+          getNodeStartLine(body),
+          "ast",
+        );
+        addProtectedRange(
+          protectedLines,
+          getNodeEndLine(body),
+          getNodeEndLine(declaration),
+          "ast",
+        );
       }
     }
 
-    if (Node.isVariableStatement(node) && shouldProtectVariableStatement(node, functionAllowlist)) {
-      const start = node.getStartLineNumber() - 1;
-      const end = node.getEndLineNumber() - 1;
-      addProtectedRange(protectedLines, start, end);
+    if (
+      Node.isVariableStatement(node) &&
+      !declaresReferencedCallback(node, referencedCallbacks) &&
+      shouldProtectVariableStatement(node, functionAllowlist)
+    ) {
+      const start = getNodeStartLine(node);
+      const end = getNodeEndLine(node);
+      addProtectedRange(protectedLines, start, end, "allowlist");
+    }
+
+    const rule = Node.isStatement(node)
+      ? protectionRules.find((candidate) => candidate.matches(node))
+      : undefined;
+    if (rule) {
+      const start = getNodeStartLine(node);
+      const end = getNodeEndLine(node);
+      addProtectedRange(protectedLines, start, end, "rule");
+      for (let line = start; line <= end; line += 1) {
+        if (protectedLines.get(line) === "rule" && !ruleMatches.has(line)) {
+          ruleMatches.set(line, rule.description);
+        }
+      }
     }
   });
 
   return protectedLines;
 }
 
-function getProtectedCallInfos(
+// Binding identifiers written by a statement: declared names or the target of `name = ...`.
+function getWrittenIdentifiers(statement: Node): Identifier[] {
+  const bindingIdentifiers = (name: Node): Identifier[] =>
+    Node.isIdentifier(name)
+      ? [name]
+      : name
+          .getDescendantsOfKind(SyntaxKind.BindingElement)
+          .map((element) => element.getNameNode())
+          .filter((elementName): elementName is Identifier => Node.isIdentifier(elementName));
+
+  if (Node.isVariableStatement(statement)) {
+    return statement
+      .getDeclarations()
+      .flatMap((declaration) => bindingIdentifiers(declaration.getNameNode()));
+  }
+  if (Node.isFunctionDeclaration(statement) || Node.isClassDeclaration(statement)) {
+    const name = statement.getNameNode();
+    return name ? [name] : [];
+  }
+  if (Node.isExpressionStatement(statement)) {
+    const expression = unwrapExpression(statement.getExpression());
+    if (
+      Node.isBinaryExpression(expression) &&
+      expression.getOperatorToken().getKind() === SyntaxKind.EqualsToken
+    ) {
+      const left = expression.getLeft();
+      return Node.isIdentifier(left) ? [left] : [];
+    }
+  }
+  return [];
+}
+
+/**
+ * Lines of statements before the marker that define values read at or after the marker,
+ * plus the statements those definitions read from. Uses ts-morph reference analysis.
+ */
+function getReferencedDeclarationLines(
   sourceFile: SourceFile,
-  protectedFunctions: Set<string>,
-): ProtectedCallInfo[] {
-  const infos: ProtectedCallInfo[] = [];
+  processingStartLine: number,
+  markerLine: number,
+): Set<number> {
+  type Definition = { statement: Node; referenceLines: Set<number> };
+  const definitions: Definition[] = [];
 
   sourceFile.forEachDescendant((node) => {
-    if (!Node.isCallExpression(node)) {
+    if (!Node.isStatement(node) || Node.isCommentNode(node)) {
       return;
     }
-
-    const expression = node.getExpression();
-    if (!Node.isIdentifier(expression)) {
+    const startLine = getNodeStartLine(node);
+    const endLine = getNodeEndLine(node);
+    if (startLine < processingStartLine || endLine >= markerLine) {
       return;
     }
 
-    if (!protectedFunctions.has(expression.getText())) {
-      return;
+    const referenceLines = new Set<number>();
+    for (const identifier of getWrittenIdentifiers(node)) {
+      for (const reference of identifier.findReferencesAsNodes()) {
+        const referenceLine = getNodeStartLine(reference);
+        if (referenceLine < startLine || referenceLine > endLine) {
+          referenceLines.add(referenceLine);
+        }
+      }
+    }
+    if (referenceLines.size > 0) {
+      definitions.push({ statement: node, referenceLines });
     }
-
-    const callbackBodyBlock = getProtectedCallbackBodyBlock(node);
-    infos.push({
-      startLine: node.getStartLineNumber() - 1,
-      endLine: node.getEndLineNumber() - 1,
-      bodyStartLine: callbackBodyBlock ? callbackBodyBlock.getStartLineNumber() - 1 : undefined,
-      bodyEndLine: callbackBodyBlock ? callbackBodyBlock.getEndLineNumber() - 1 : undefined,
-    });
   });
 
-  return infos;
-}
+  const keptLines = new Set<number>();
+  let keptAny = true;
+  while (keptAny) {
+    keptAny = false;
+    for (let i = definitions.length - 1; i >= 0; i -= 1) {
+      const { statement, referenceLines } = definitions[i];
+      const isRead = [...referenceLines].some((line) => line >= markerLine || keptLines.has(line));
+      if (!isRead) {
+        continue;
+      }
 
-function getRegexProtectedLines(
+      for (let line = getNodeStartLine(statement); line <= getNodeEndLine(statement); line += 1) {
+        keptLines.add(line);
+      }
+      definitions.splice(i, 1);
+      keptAny = true;
+    }
+  }
+
+  return keptLines;
+}
+
+// Dotted name of a callee made of identifiers only, e.g. `test.describe.only`.
+export function getCalleeName(expression: Node): string | undefined {
+  if (Node.isIdentifier(expression)) {
+    return expression.getText();
+  }
+
+  if (Node.isPropertyAccessExpression(expression)) {
+    const objectName = getCalleeName(expression.getExpression());
+    return objectName ? `${objectName}.${expression.getName()}` : undefined;
+  }
+
+  return undefined;
+}
+
+function getProtectedCallName(
+  callExpression: CallExpression,
+  isProtectedFunction: ProtectedFunctionMatcher,
+): string | undefined {
+  // `it.each(table)` is only the head of `it.each(table)(title, fn)`; the outer call is protected.
+  // Decorator calls such as `@test("logs in")` belong to the decorated method.
+  const parent = callExpression.getParent();
+  if (
+    (Node.isCallExpression(parent) && parent.getExpression() === callExpression) ||
+    Node.isDecorator(parent)
+  ) {
+    return undefined;
+  }
+
+  let callee = callExpression.getExpression();
+  if (Node.isCallExpression(callee)) {
+    callee = callee.getExpression();
+  } else if (Node.isTaggedTemplateExpression(callee)) {
+    callee = callee.getTag();
+  }
+  const name = getCalleeName(callee);
+  return name && isProtectedFunction(name) ? name : undefined;
+}
+
+function containsProtectedCall(node: Node, isProtectedFunction: ProtectedFunctionMatcher): boolean {
+  return node
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .some((call) => getProtectedCallName(call, isProtectedFunction) !== undefined);
+}
+
+/**
+ * Loops and calls such as `cases.forEach((c) => it(...))` that generate protected calls.
+ * Calls inside functions declared by the statement do not count.
+ */
+function isTestGeneratingStatement(
+  node: Node,
+  isProtectedFunction: ProtectedFunctionMatcher,
+): boolean {
+  if (Node.isIterationStatement(node)) {
+    return containsProtectedCall(node, isProtectedFunction);
+  }
+  if (!Node.isExpressionStatement(node) && !Node.isVariableStatement(node)) {
+    return false;
+  }
+
+  return node.getDescendantsOfKind(SyntaxKind.CallExpression).some(
+    (call) =>
+      call.getFirstAncestor((ancestor) => ancestor === node || isCallbackFunction(ancestor)) ===
+        node &&
+      getProtectedCallName(call, isProtectedFunction) === undefined &&
+      call
+        .getArguments()
+        .some(
+          (arg) =>
+            (Node.isArrowFunction(arg) || Node.isFunctionExpression(arg)) &&
+            containsProtectedCall(arg, isProtectedFunction),
+        ),
+  );
+}
+
+// Protects a generating statement except the insides of the callback bodies it generates.
+function addTestGeneratingStatementLines(
+  target: Map<number, ProtectionSource>,
+  statement: Node,
+  isProtectedFunction: ProtectedFunctionMatcher,
+): void {
+  const generatedBodyLines = new Set<number>();
+  for (const call of statement.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    if (!getProtectedCallName(call, isProtectedFunction)) {
+      continue;
+    }
+    const callbackFunction = getProtectedCallbackFunction(call);
+    const body = callbackFunction?.getBody();
+    if (callbackFunction?.getParent() !== call || !Node.isBlock(body)) {
+      continue;
+    }
+    for (let line = getNodeStartLine(body) + 1; line < getNodeEndLine(body); line += 1) {
+      generatedBodyLines.add(line);
+    }
+  }
+
+  for (
+    let line = getNodeStartLine(statement);
+    line <= getNodeEndLine(statement);
+    line += 1
+  ) {
+    if (!generatedBodyLines.has(line)) {
+      addProtectedRange(target, line, line, "ast");
+    }
+  }
+}
+
+function getCallTitle(callExpression: CallExpression): string | undefined {
+  const [firstArg] = callExpression.getArguments();
+  if (
+    !firstArg ||
+    (!Node.isStringLiteral(firstArg) && !Node.isNoSubstitutionTemplateLiteral(firstArg))
+  ) {
+    return undefined;
+  }
+
+  const title = firstArg.getLiteralText();
+  return title.length > 0 ? title : undefined;
+}
+
+type ProtectedNode = {
+  name: string;
+  title?: string;
+  bodyRange?: LineRange;
+};
+
+// Protected calls, suite classes and their test/hook methods, which all scope a marker.
+function getProtectedNode(
+  node: Node,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+): ProtectedNode | undefined {
+  if (Node.isCallExpression(node)) {
+    const name = getProtectedCallName(node, isProtectedFunction);
+    if (!name) {
+      return undefined;
+    }
+    const callbackFunction = getProtectedCallbackFunction(node);
+    return {
+      name,
+      title: getCallTitle(node),
+      bodyRange: callbackFunction ? getCallbackBodyRange(callbackFunction) : undefined,
+    };
+  }
+
+  if (isSuiteClass(node, isProtectedDecorator)) {
+    const decorator = getProtectedDecorator(node, isProtectedDecorator);
+    return {
+      name: decorator?.name ?? "suite",
+      title: decorator?.title ?? node.getName(),
+      bodyRange: getSuiteClassBodyRange(node),
+    };
+  }
+
+  if (Node.isMethodDeclaration(node)) {
+    const name = getProtectedMethodName(node, isProtectedFunction, isProtectedDecorator);
+    if (!name) {
+      return undefined;
+    }
+    const decorator = getProtectedDecorator(node, isProtectedDecorator);
+    const body = node.getBody();
+    return {
+      name,
+      title: decorator ? (decorator.title ?? node.getName()) : undefined,
+      bodyRange: Node.isBlock(body)
+        ? { startLine: getNodeStartLine(body), endLine: getNodeEndLine(body) }
+        : undefined,
+    };
+  }
+
+  return undefined;
+}
+
+function getProtectedCallInfos(
+  sourceFile: SourceFile,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+): ProtectedCallInfo[] {
+  const infos: ProtectedCallInfo[] = [];
+
+  sourceFile.forEachDescendant((node) => {
+    const protectedNode = getProtectedNode(node, isProtectedFunction, isProtectedDecorator);
+    if (!protectedNode) {
+      return;
+    }
+
+    const { name, title, bodyRange } = protectedNode;
+    const titlePath = node
+      .getAncestors()
+      .map((ancestor) => getProtectedNode(ancestor, isProtectedFunction, isProtectedDecorator))
+      .map((ancestor) => ancestor?.title)
+      .filter((ancestorTitle): ancestorTitle is string => ancestorTitle !== undefined)
+      .reverse();
+    if (title) {
+      titlePath.push(title);
+    }
+
+    infos.push({
+      name,
+      title,
+      titlePath,
+      startLine: getNodeStartLine(node),
+      endLine: getNodeEndLine(node),
+      bodyStartLine: bodyRange?.startLine,
+      bodyEndLine: bodyRange?.endLine,
+    });
+  });
+
+  return infos;
+}
+
+/**
+ * Maps the second and later lines of multi-line template and string literals to the
+ * literal's first line. Nested literals map to the outermost one.
+ */
+function getLiteralContinuationLines(sourceFile: SourceFile): Map<number, number> {
+  const continuationLines = new Map<number, number>();
+
+  sourceFile.forEachDescendant((node) => {
+    if (
+      !Node.isNoSubstitutionTemplateLiteral(node) &&
+      !Node.isTemplateExpression(node) &&
+      !Node.isStringLiteral(node)
+    ) {
+      return;
+    }
+
+    const startLine = getNodeStartLine(node);
+    const endLine = getNodeEndLine(node);
+    for (let line = startLine + 1; line <= endLine; line += 1) {
+      if (!continuationLines.has(line)) {
+        continuationLines.set(line, startLine);
+      }
+    }
+  });
+
+  return continuationLines;
+}
+
+type StatementLayout = {
+  units: LineRange[];
+  structuralLines: Set<number>;
+};
+
+/**
+ * Splits the file into units commented as a whole and structural lines that are always kept.
+ * Units are the outermost statements (and concise callback bodies) that do not contain a
+ * processable body: protected callback, test method or suite class. Structural lines are the
+ * remaining code lines of statements that do contain one, e.g. `for (...) {` around `it()`.
+ * Lines are 0-based.
+ */
+function getStatementLayout(
+  sourceFile: SourceFile,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+  referencedCallbacks: Set<CallbackFunction>,
+): StatementLayout {
+  const structuralNodes = new Set<Node>();
+  const conciseBodies: Node[] = [];
+  sourceFile.forEachDescendant((node) => {
+    if (
+      getProtectedBodyStartLine(node, isProtectedFunction, isProtectedDecorator, referencedCallbacks) ===
+      undefined
+    ) {
+      return;
+    }
+    if (Node.isExpression(node)) {
+      conciseBodies.push(node);
+    }
+    const firstStructuralNode = Node.isExpression(node) ? node.getParentOrThrow() : node;
+    for (const current of [firstStructuralNode, ...firstStructuralNode.getAncestors()]) {
+      if (structuralNodes.has(current)) {
+        break;
+      }
+      structuralNodes.add(current);
+    }
+  });
+
+  const unitNodes = new Set(conciseBodies.filter((body) => !structuralNodes.has(body)));
+  sourceFile.forEachDescendant((node, traversal) => {
+    if (unitNodes.has(node)) {
+      traversal.skip();
+    } else if (Node.isStatement(node) && !Node.isCommentNode(node) && !structuralNodes.has(node)) {
+      unitNodes.add(node);
+      traversal.skip();
+    }
+  });
+
+  const structuralLines = new Set<number>();
+  const addStructuralLines = (node: Node) => {
+    for (const child of node.getChildren()) {
+      if (structuralNodes.has(child) || unitNodes.has(child) || Node.isCommentNode(child)) {
+        continue;
+      }
+      if (child.getKind() === SyntaxKind.SyntaxList) {
+        addStructuralLines(child);
+        continue;
+      }
+      const endLine = getNodeEndLine(child);
+      for (let line = getNodeStartLine(child); line <= endLine; line += 1) {
+        structuralLines.add(line);
+      }
+    }
+  };
+  for (const node of structuralNodes) {
+    addStructuralLines(node);
+  }
+
+  const units = [...unitNodes].map((node) => ({
+    startLine: getNodeStartLine(node),
+    endLine: getNodeEndLine(node),
+  }));
+  return { units, structuralLines };
+}
+
+/**
+ * Lines of the units `//@debug` keeps, mapped to the source that keeps them. A unit is kept
+ * when one of its lines is protected, when it is cut by the processing range or when it
+ * shares a line with a kept unit.
+ */
+function getKeptUnitLines(
+  units: LineRange[],
+  protectedLines: Map<number, ProtectionSource>,
+  processingStartLine: number,
+  markerLine: number,
+): Map<number, ProtectionSource> {
+  const keptLines = new Map<number, ProtectionSource>();
+  const pendingUnits = [...units];
+  let keptAny = true;
+
+  while (keptAny) {
+    keptAny = false;
+    for (let i = pendingUnits.length - 1; i >= 0; i -= 1) {
+      const unit = pendingUnits[i];
+      let source: ProtectionSource | undefined =
+        unit.startLine < processingStartLine || unit.endLine >= markerLine ? "ast" : undefined;
+      for (let line = unit.startLine; !source && line <= unit.endLine; line += 1) {
+        source = keptLines.get(line) ?? protectedLines.get(line);
+      }
+      if (!source) {
+        continue;
+      }
+
+      for (let line = unit.startLine; line <= unit.endLine; line += 1) {
+        if (!keptLines.has(line)) {
+          keptLines.set(line, source);
+        }
+      }
+      pendingUnits.splice(i, 1);
+      keptAny = true;
+    }
+  }
+
+  return keptLines;
+}
+
+function isInsideLiteral(sourceFile: SourceFile, line: number, column: number): boolean {
+  const node = sourceFile.getDescendantAtPos(
+    sourceFile.compilerNode.getPositionOfLineAndCharacter(line, column),
+  );
+  return (
+    node !== undefined &&
+    (Node.isStringLiteral(node) ||
+      Node.isNoSubstitutionTemplateLiteral(node) ||
+      Node.isTemplateHead(node) ||
+      Node.isTemplateMiddle(node) ||
+      Node.isTemplateTail(node) ||
+      Node.isJsxText(node))
+  );
+}
+
+/**
+ * Lines kept by inline annotations: a line ending in `//@keep`, the next code line after a
+ * standalone `//@keep`, and a `//@keep-start` ... `//@keep-end` region including both
+ * annotation lines. An unclosed region runs to the end of the file.
+ */
+function getKeepAnnotationLines(sourceFile: SourceFile): Set<number> {
+  const keptLines = new Set<number>();
+  let regionStartLine: number | undefined;
+  let keepNextCodeLine = false;
+
+  sourceFile
+    .getFullText()
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      const trimmed = line.trim();
+      const isAnnotation = (tag: string) =>
+        trimmed === tag && !isInsideLiteral(sourceFile, index, line.indexOf(tag));
+
+      if (regionStartLine !== undefined) {
+        keptLines.add(index);
+        if (isAnnotation(KEEP_END_TAG)) {
+          regionStartLine = undefined;
+        }
+      } else if (isAnnotation(KEEP_START_TAG)) {
+        regionStartLine = index;
+        keptLines.add(index);
+      } else if (isAnnotation(KEEP_TAG)) {
+        keepNextCodeLine = true;
+        keptLines.add(index);
+      } else if (keepNextCodeLine && trimmed.length > 0 && !trimmed.startsWith("//")) {
+        keepNextCodeLine = false;
+        keptLines.add(index);
+      } else if (
+        trimmed.endsWith(KEEP_TAG) &&
+        !isInsideLiteral(sourceFile, index, line.lastIndexOf(KEEP_TAG))
+      ) {
+        keptLines.add(index);
+      }
+    });
+
+  return keptLines;
+}
+
+/**
+ * Line `from=<label>` starts at: the line after a standalone `//@label <label>` or the line
+ * ending in it. The last such line before the marker wins.
+ */
+function getLabelStartLine(sourceFile: SourceFile, label: string, markerLine: number): number {
+  const annotation = `${LABEL_TAG} ${label}`;
+  const lines = sourceFile.getFullText().split(/\r?\n/);
+  for (let index = markerLine - 1; index >= 0; index -= 1) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    if (
+      trimmed.endsWith(annotation) &&
+      !isInsideLiteral(sourceFile, index, line.lastIndexOf(annotation))
+    ) {
+      return trimmed === annotation ? index + 1 : index;
+    }
+  }
+  throw new MarkerOptionError(
+    `Marker option 'from=${label}' does not match any '${annotation}' line before the marker.`,
+  );
+}
+
+export function isHookCallName(name: string): boolean {
+  return HOOK_NAME_PATTERN.test(name.slice(name.lastIndexOf(".") + 1));
+}
+
+function isStepCallName(name: string): boolean {
+  return name.slice(name.lastIndexOf(".") + 1) === "step";
+}
+
+/** Titled calls that are neither hooks nor steps: tests and suites. */
+export function isTestLikeCall(info: { name: string; title?: string }): boolean {
+  return info.title !== undefined && !isHookCallName(info.name) && !isStepCallName(info.name);
+}
+
+function isNestedIn(inner: LineRange, outer: LineRange): boolean {
+  return outer.startLine <= inner.startLine && inner.endLine <= outer.endLine;
+}
+
+/**
+ * Innermost titled call around the marker that holds no other titled calls, i.e. the test
+ * rather than a suite. Undefined when the marker sits directly in a suite or hook.
+ */
+function getMarkerTestCall(
+  protectedCallInfos: ProtectedCallInfo[],
+  markerLine: number,
+): ProtectedCallInfo | undefined {
+  const testLikeCalls = protectedCallInfos.filter(isTestLikeCall);
+  const innermost = testLikeCalls
+    .filter((info) => info.startLine <= markerLine && markerLine <= info.endLine)
+    .reduce<ProtectedCallInfo | undefined>(
+      (current, info) => (!current || info.startLine >= current.startLine ? info : current),
+      undefined,
+    );
+  if (
+    !innermost ||
+    testLikeCalls.some((info) => info !== innermost && isNestedIn(info, innermost))
+  ) {
+    return undefined;
+  }
+  return innermost;
+}
+
+/**
+ * Protected bodies kept by marker options: hooks (`before`, `afterEach`...) for `keep-hooks`
+ * and, for `skip-siblings`, the other non-hook callbacks that neither contain the marker nor
+ * are nested in the marker's test (its steps still get commented).
+ */
+function getMarkerOptionKeptRanges(
+  protectedCallInfos: ProtectedCallInfo[],
+  markerLine: number,
+  options: MarkerOptions,
+): LineRange[] {
+  const markerTest = getMarkerTestCall(protectedCallInfos, markerLine);
+  const ranges: LineRange[] = [];
+  for (const info of protectedCallInfos) {
+    if (info.bodyStartLine === undefined || info.bodyEndLine === undefined) {
+      continue;
+    }
+    const isHook = isHookCallName(info.name);
+    const containsMarker = info.startLine <= markerLine && markerLine <= info.endLine;
+    const isSibling = !containsMarker && !(markerTest && isNestedIn(info, markerTest));
+    if ((isHook && options.keepHooks) || (!isHook && isSibling && options.skipSiblings)) {
+      ranges.push({ startLine: info.bodyStartLine, endLine: info.bodyEndLine });
+    }
+  }
+  return ranges;
+}
+
+function getRegexProtectedLines(
   lines: string[],
   protectedCallLinePattern: RegExp | undefined,
 ): Set<number> {
@@ -387,18 +1716,18 @@ function hasAmbiguousInnerProtectedCallBeforeMarker(
   return false;
 }
 
-function isProtectedCallbackBlock(block: Node, protectedFunctions: Set<string>): boolean {
-  if (!Node.isBlock(block)) {
-    return false;
-  }
-
-  const parent = block.getParent();
-  if (!parent) {
+function isProtectedCallbackBody(
+  body: Node,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  referencedCallbacks: Set<CallbackFunction>,
+): boolean {
+  const parent = body.getParent();
+  if (!isCallbackFunction(parent) || parent.getBody() !== body) {
     return false;
   }
 
-  if (!Node.isArrowFunction(parent) && !Node.isFunctionExpression(parent)) {
-    return false;
+  if (referencedCallbacks.has(parent)) {
+    return true;
   }
 
   const callExpression = parent.getParentIfKind(SyntaxKind.CallExpression);
@@ -406,19 +1735,45 @@ function isProtectedCallbackBlock(block: Node, protectedFunctions: Set<string>):
     return false;
   }
 
-  const expression = callExpression.getExpression();
-  if (!Node.isIdentifier(expression)) {
-    return false;
+  return getProtectedCallName(callExpression, isProtectedFunction) !== undefined;
+}
+
+// First line processed when `node` is the outermost protected body around the marker.
+function getProtectedBodyStartLine(
+  node: Node,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+  referencedCallbacks: Set<CallbackFunction>,
+): number | undefined {
+  if (isSuiteClass(node, isProtectedDecorator)) {
+    return getSuiteClassBodyRange(node).startLine + 1;
+  }
+
+  const parent = node.getParent();
+  if (Node.isMethodDeclaration(parent)) {
+    const isMethodBody =
+      parent.getBody() === node &&
+      getProtectedMethodName(parent, isProtectedFunction, isProtectedDecorator) !== undefined;
+    return isMethodBody ? getNodeStartLine(node) + 1 : undefined;
   }
 
-  return protectedFunctions.has(expression.getText());
+  if (!isProtectedCallbackBody(node, isProtectedFunction, referencedCallbacks)) {
+    return undefined;
+  }
+  const bodyRange = getCallbackBodyRange(parent as CallbackFunction);
+  return bodyRange ? bodyRange.startLine + 1 : getNodeStartLine(node) + 1;
 }
 
 function getProcessingStartLine(
   sourceFile: SourceFile,
-  markerOffset: number,
-  protectedFunctions: Set<string>,
+  markerLine: number,
+  isProtectedFunction: ProtectedFunctionMatcher,
+  isProtectedDecorator: ProtectedFunctionMatcher,
+  referencedCallbacks: Set<CallbackFunction>,
+  scope: MarkerScope,
 ): number | undefined {
+  // Offsets come from the parsed text: undebug parses a prefix-stripped copy.
+  const markerOffset = sourceFile.compilerNode.getPositionOfLineAndCharacter(markerLine, 0);
   const markerNode =
     sourceFile.getDescendantAtPos(markerOffset) ??
     sourceFile.getDescendantAtPos(Math.max(markerOffset - 1, 0));
@@ -427,22 +1782,27 @@ function getProcessingStartLine(
     return undefined;
   }
 
-  const candidateBlocks = markerNode
-    .getAncestors()
-    .filter(
-      (ancestor) =>
-        Node.isBlock(ancestor) && isProtectedCallbackBlock(ancestor, protectedFunctions),
-    );
+  // A concise arrow body can be the very token following the marker.
+  const candidateStartLines = [markerNode, ...markerNode.getAncestors()]
+    .map((node) =>
+      getProtectedBodyStartLine(
+        node,
+        isProtectedFunction,
+        isProtectedDecorator,
+        referencedCallbacks,
+      ),
+    )
+    .filter((line): line is number => line !== undefined);
 
-  if (candidateBlocks.length === 0) {
+  if (candidateStartLines.length === 0) {
     return undefined;
   }
 
   // getAncestors() is ordered from nearest parent to farthest
-  // We want the OUTERMOST protected block (usually describe), not the nearest one
+  // We want the OUTERMOST protected body (usually describe), not the nearest one
   // This ensures we process everything in before() blocks when marker is in test() blocks
-  const outermostProtectedBlock = candidateBlocks[candidateBlocks.length - 1];
-  return outermostProtectedBlock.getStartLineNumber();
+  // `scope=test` markers opt out and only process the nearest body.
+  return scope === "test" ? candidateStartLines[0] : candidateStartLines[candidateStartLines.length - 1];
 }
 
 export function computeTransformedText(text: string): string {
@@ -453,52 +1813,224 @@ export function computeTransformedTextWithConfig(
   text: string,
   config?: Partial<ProcessorConfig>,
 ): string {
-  const markerInfo = getMarkerInfo(text);
-  if (!markerInfo) {
-    return text;
-  }
+  return computeTransformReport(text, config).text;
+}
 
-  const normalizedConfig = normalizeConfig(config);
-  const protectedFunctions = new Set(normalizedConfig.protectedFunctions);
-  const functionAllowlist = new Set(normalizedConfig.functionAllowlist);
-  const protectedCallLinePattern = getProtectedCallLinePattern(
-    normalizedConfig.protectedFunctions,
-  );
+// Parse results and marker-independent protection of a file, shared by the reports for
+// different marker lines.
+type TransformContext = {
+  text: string;
+  config: ProcessorConfig;
+  lines: string[];
+  codeLines: string[];
+  sourceFile: SourceFile;
+  isProtectedFunction: ProtectedFunctionMatcher;
+  isProtectedDecorator: ProtectedFunctionMatcher;
+  referencedCallbacks: Set<CallbackFunction>;
+  protectedCallInfos: ProtectedCallInfo[];
+  protectedCallLinePattern: RegExp | undefined;
+  literalContinuationLines: Map<number, number>;
+  protectedLines: Map<number, ProtectionSource>;
+  ruleMatches: Map<number, string>;
+  layout: StatementLayout;
+};
 
+function createTransformContext(text: string, mode: Mode, config: ProcessorConfig): TransformContext {
   const lines = text.split(/\r?\n/);
-  const parseText = markerInfo.mode === "undebug" ? stripFirstCommentPrefixPerLine(text) : text;
-  const project = new Project({ useInMemoryFileSystem: true });
-  const sourceFile = project.createSourceFile("temp.ts", parseText, { overwrite: true });
-  const protectedCallInfos = getProtectedCallInfos(sourceFile, protectedFunctions);
+  const parseText = mode === "undebug" ? stripCommentPrefixPerLine(text, config) : text;
+  // Reference analysis only resolves local bindings; loading lib files would slow it down.
+  const project = new Project({ useInMemoryFileSystem: true, skipLoadingLibFiles: true });
+  const sourceFile = project.createSourceFile(getParseFileName(config), parseText, {
+    overwrite: true,
+  });
+  const configuredMatcher = createProtectedFunctionMatcher(config.protectedFunctions);
+  const isProtectedDecorator = createProtectedFunctionMatcher(config.protectedDecorators);
+  const importAliases = getImportAliases(sourceFile);
+  const isProtectedFunction = withImportAliases(configuredMatcher, importAliases);
+  const protectedCallLinePattern = getProtectedCallLinePattern([
+    ...config.protectedFunctions,
+    ...getProtectedAliasNames(importAliases, configuredMatcher),
+  ]);
+  const referencedCallbacks = getReferencedCallbackFunctions(sourceFile, isProtectedFunction);
+  // Literal content is text, not structure; hide it from the regex fallback.
+  const literalContinuationLines = getLiteralContinuationLines(sourceFile);
+  const codeLines = lines.map((line, index) => (literalContinuationLines.has(index) ? "" : line));
+
+  const ruleMatches = new Map<number, string>();
+  const protectedLines = getProtectedLines(
+    sourceFile,
+    isProtectedFunction,
+    isProtectedDecorator,
+    new Set(config.functionAllowlist),
+    referencedCallbacks,
+    createProtectionRuleMatchers(config.protectionRules),
+    ruleMatches,
+  );
+  for (const protectedLine of getRegexProtectedLines(codeLines, protectedCallLinePattern)) {
+    addProtectedRange(protectedLines, protectedLine, protectedLine, "regex");
+  }
+  for (const keptLine of getKeepAnnotationLines(sourceFile)) {
+    addProtectedRange(protectedLines, keptLine, keptLine, "keep");
+  }
+
+  return {
+    text,
+    config,
+    lines,
+    codeLines,
+    sourceFile,
+    isProtectedFunction,
+    isProtectedDecorator,
+    referencedCallbacks,
+    protectedCallInfos: getProtectedCallInfos(sourceFile, isProtectedFunction, isProtectedDecorator),
+    protectedCallLinePattern,
+    literalContinuationLines,
+    protectedLines,
+    ruleMatches,
+    layout: getStatementLayout(
+      sourceFile,
+      isProtectedFunction,
+      isProtectedDecorator,
+      referencedCallbacks,
+    ),
+  };
+}
+
+function createEmptyReport(text: string): TransformReport {
+  return {
+    text,
+    changedLines: [],
+    protectedLines: {
+      ast: [],
+      regex: [],
+      allowlist: [],
+      rule: [],
+      reference: [],
+      keep: [],
+      marker: [],
+    },
+    ruleMatches: [],
+  };
+}
+
+/**
+ * Report for a marker at `markerInfo.markerLine`. `ignoredLine` is treated as blank, so a
+ * marker can be tried at another line while its current line stays in the text.
+ */
+function computeMarkerReport(
+  context: TransformContext,
+  markerInfo: MarkerInfo,
+  ignoredLine?: number,
+): TransformReport {
+  const report = createEmptyReport(context.text);
+  report.mode = markerInfo.mode;
+  report.markerLine = markerInfo.markerLine;
+
+  const { config, sourceFile, literalContinuationLines } = context;
+  const lines = [...context.lines];
+  if (ignoredLine !== undefined) {
+    lines[ignoredLine] = "";
+  }
   if (
     hasAmbiguousInnerProtectedCallBeforeMarker(
-      lines,
+      context.codeLines,
       markerInfo.markerLine,
-      protectedCallInfos,
-      protectedCallLinePattern,
+      context.protectedCallInfos,
+      context.protectedCallLinePattern,
     )
   ) {
-    return text;
+    report.noOpReason = "ambiguous-protected-call";
+    return report;
   }
-  const protectedLines = getProtectedLines(
-    sourceFile,
-    protectedFunctions,
-    functionAllowlist,
-  );
-  for (const protectedLine of getRegexProtectedLines(lines, protectedCallLinePattern)) {
-    protectedLines.add(protectedLine);
+  const ruleMatches = new Map(context.ruleMatches);
+  const protectedLines = new Map(context.protectedLines);
+  for (const range of getMarkerOptionKeptRanges(
+    context.protectedCallInfos,
+    markerInfo.markerLine,
+    markerInfo.options,
+  )) {
+    addProtectedRange(protectedLines, range.startLine, range.endLine, "marker");
   }
-  const processingStartLine = getProcessingStartLine(
+  const scopeStartLine = getProcessingStartLine(
     sourceFile,
-    markerInfo.markerOffset,
-    protectedFunctions,
+    markerInfo.markerLine,
+    context.isProtectedFunction,
+    context.isProtectedDecorator,
+    context.referencedCallbacks,
+    markerInfo.options.scope,
   );
-  if (processingStartLine === undefined) {
-    return text;
+  if (scopeStartLine === undefined) {
+    report.noOpReason = "marker-outside-protected-callback";
+    return report;
+  }
+  const processingStartLine =
+    markerInfo.options.from === undefined
+      ? scopeStartLine
+      : Math.max(
+          scopeStartLine,
+          getLabelStartLine(sourceFile, markerInfo.options.from, markerInfo.markerLine),
+        );
+  report.processingStartLine = processingStartLine;
+
+  if (markerInfo.mode === "debug" && config.keepReferencedDeclarations) {
+    const referencedLines = getReferencedDeclarationLines(
+      sourceFile,
+      processingStartLine,
+      markerInfo.markerLine,
+    );
+    for (const referencedLine of referencedLines) {
+      addProtectedRange(protectedLines, referencedLine, referencedLine, "reference");
+    }
   }
 
+  // Statements are commented all-or-nothing. Undebug restores every tagged line of a
+  // statement, so a statement commented as a whole is never restored halfway.
+  const { units, structuralLines } = context.layout;
+  for (const structuralLine of structuralLines) {
+    addProtectedRange(protectedLines, structuralLine, structuralLine, "ast");
+  }
+  const unitLines = new Set<number>();
+  for (const unit of units) {
+    for (let line = unit.startLine; line <= unit.endLine; line += 1) {
+      unitLines.add(line);
+    }
+  }
+  const keptUnitLines =
+    markerInfo.mode === "debug"
+      ? getKeptUnitLines(units, protectedLines, processingStartLine, markerInfo.markerLine)
+      : new Map<number, ProtectionSource>();
+  // Lines kept along with a rule-protected statement report the same rule.
+  for (const unit of units) {
+    let description: string | undefined;
+    for (let line = unit.startLine; !description && line <= unit.endLine; line += 1) {
+      description = ruleMatches.get(line);
+    }
+    for (let line = unit.startLine; description && line <= unit.endLine; line += 1) {
+      if (keptUnitLines.get(line) === "rule" && !ruleMatches.has(line)) {
+        ruleMatches.set(line, description);
+      }
+    }
+  }
+
+  const changedLines = new Set<number>();
   for (let lineIndex = processingStartLine; lineIndex < markerInfo.markerLine; lineIndex += 1) {
-    if (protectedLines.has(lineIndex)) {
+    // Literal content follows the literal's first line, so a prefix never lands in a string.
+    const literalStartLine = literalContinuationLines.get(lineIndex);
+    let protectionSource: ProtectionSource | undefined;
+    if (literalStartLine !== undefined) {
+      protectionSource = changedLines.has(literalStartLine)
+        ? undefined
+        : (protectedLines.get(lineIndex) ?? "ast");
+    } else if (unitLines.has(lineIndex)) {
+      protectionSource = keptUnitLines.get(lineIndex);
+    } else {
+      protectionSource = protectedLines.get(lineIndex);
+    }
+    if (protectionSource) {
+      report.protectedLines[protectionSource].push(lineIndex);
+      if (protectionSource === "rule") {
+        report.ruleMatches.push({ line: lineIndex, rule: ruleMatches.get(lineIndex) ?? "" });
+      }
       continue;
     }
 
@@ -510,26 +2042,334 @@ export function computeTransformedTextWithConfig(
     if (markerInfo.mode === "debug") {
       const leadingWhitespace = getLeadingWhitespace(originalLine);
       const lineWithoutIndent = originalLine.slice(leadingWhitespace.length);
-      lines[lineIndex] = `${leadingWhitespace}//${lineWithoutIndent}`;
+      lines[lineIndex] = `${leadingWhitespace}${config.commentPrefix}${lineWithoutIndent}`;
+      report.changedLines.push(lineIndex);
+      changedLines.add(lineIndex);
       continue;
     }
 
-    const match = originalLine.match(/^(\s*)\/\/(.*)$/);
-    if (!match) {
+    const uncommented = uncommentLine(originalLine, config);
+    if (uncommented === undefined) {
       continue;
     }
-    lines[lineIndex] = `${match[1]}${match[2]}`;
+    lines[lineIndex] = uncommented;
+    report.changedLines.push(lineIndex);
+    changedLines.add(lineIndex);
   }
 
-  const eol = text.includes("\r\n") ? "\r\n" : "\n";
-  return lines.join(eol);
+  if (report.changedLines.length === 0) {
+    report.noOpReason = "nothing-eligible";
+    return report;
+  }
+
+  const eol = context.text.includes("\r\n") ? "\r\n" : "\n";
+  report.text = lines.join(eol);
+  return report;
+}
+
+export function computeTransformReport(
+  text: string,
+  config?: Partial<ProcessorConfig>,
+): TransformReport {
+  const markerInfo = getMarkerInfo(text);
+  if (!markerInfo) {
+    return { ...createEmptyReport(text), noOpReason: "no-marker" };
+  }
+
+  const context = createTransformContext(text, markerInfo.mode, normalizeConfig(config));
+  return computeMarkerReport(context, markerInfo);
+}
+
+function isProtectedCallbackInfo(info: ProtectedCallInfo): info is ProtectedCallbackInfo {
+  return (
+    info.bodyStartLine !== undefined &&
+    info.bodyEndLine !== undefined &&
+    info.bodyEndLine > info.bodyStartLine
+  );
 }
 
-function getLeadingWhitespace(text: string): string {
+// Nearest test where the marker, moved to the start of the body, has an effect. Tests that
+// already contain the marker cannot make it effective.
+function getMarkerMoveTarget(
+  context: TransformContext,
+  markerInfo: MarkerInfo,
+): ProtectedCallbackInfo | undefined {
+  const { markerLine } = markerInfo;
+  // A marker moved above the first line that could be commented has no effect.
+  const firstCommentableLine = context.lines.findIndex(
+    (line, index) =>
+      index !== markerLine &&
+      line.trim().length > 0 &&
+      !context.protectedLines.has(index) &&
+      !context.layout.structuralLines.has(index),
+  );
+  if (firstCommentableLine < 0) {
+    return undefined;
+  }
+
+  return context.protectedCallInfos
+    .filter(
+      (info): info is ProtectedCallbackInfo =>
+        isProtectedCallbackInfo(info) &&
+        isTestLikeCall(info) &&
+        info.bodyStartLine >= firstCommentableLine &&
+        (markerLine <= info.bodyStartLine || markerLine >= info.bodyEndLine),
+    )
+    .sort((a, b) => Math.abs(a.startLine - markerLine) - Math.abs(b.startLine - markerLine))
+    .find((callback) => {
+      try {
+        const movedMarker = { ...markerInfo, markerLine: callback.bodyStartLine + 1 };
+        return computeMarkerReport(context, movedMarker, markerLine).noOpReason === undefined;
+      } catch {
+        return false;
+      }
+    });
+}
+
+export type MarkerAnalysis = {
+  problems: MarkerProblem[];
+  // Missing when the markers, their options or the settings keep the file from transforming.
+  report?: TransformReport;
+  // Where the `Move marker` quick fix puts a marker reported as outside or without effect.
+  moveTarget?: ProtectedCallbackInfo;
+};
+
+/**
+ * Analyzes the marker for live diagnostics without throwing on marker or settings problems.
+ * Marker count problems are reported per marker line; scope, option and settings problems are
+ * reported on the single marker. An effective debug marker yields one `rule-match` entry per
+ * rule-kept line. The file is parsed once, also when looking for a move target.
+ */
+export function analyzeMarker(text: string, config?: Partial<ProcessorConfig>): MarkerAnalysis {
+  const { debugLines, undebugLines } = findMarkerLines(text.split(/\r?\n/));
+
+  if (debugLines.length > 0 && undebugLines.length > 0) {
+    return {
+      problems: [...debugLines, ...undebugLines]
+        .sort((a, b) => a - b)
+        .map((line) => ({
+          kind: "conflicting-markers",
+          line,
+          message: "Found both //@debug and //@undebug tags.",
+        })),
+    };
+  }
+
+  const markerLines = debugLines.length > 0 ? debugLines : undebugLines;
+  if (markerLines.length > 1) {
+    const tag = debugLines.length > 0 ? DEBUG_TAG : UNDEBUG_TAG;
+    return {
+      problems: markerLines.map((line) => ({
+        kind: "duplicate-marker",
+        line,
+        message: `Multiple ${tag} tags found.`,
+      })),
+    };
+  }
+  if (markerLines.length === 0) {
+    return { problems: [] };
+  }
+
+  let normalizedConfig: ProcessorConfig;
+  try {
+    normalizedConfig = normalizeConfig(config);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { problems: [{ kind: "invalid-configuration", line: markerLines[0], message }] };
+  }
+
+  let markerInfo: MarkerInfo | undefined;
+  let context: TransformContext;
+  let report: TransformReport;
+  try {
+    markerInfo = getMarkerInfo(text);
+    if (!markerInfo) {
+      return { problems: [] };
+    }
+    context = createTransformContext(text, markerInfo.mode, normalizedConfig);
+    report = computeMarkerReport(context, markerInfo);
+  } catch (error) {
+    if (error instanceof MarkerOptionError) {
+      return {
+        problems: [{ kind: "invalid-marker-option", line: markerLines[0], message: error.message }],
+      };
+    }
+    throw error;
+  }
+  if (report.noOpReason === "marker-outside-protected-callback") {
+    return {
+      report,
+      problems: [
+        {
+          kind: "marker-outside-protected-callback",
+          line: markerLines[0],
+          message: NO_OP_REASON_DESCRIPTIONS[report.noOpReason],
+        },
+      ],
+      moveTarget: getMarkerMoveTarget(context, markerInfo),
+    };
+  }
+  if (report.noOpReason) {
+    return {
+      report,
+      problems: [
+        {
+          kind: "no-op-marker",
+          line: markerLines[0],
+          message: `Marker has no effect. ${NO_OP_REASON_DESCRIPTIONS[report.noOpReason]}`,
+        },
+      ],
+      moveTarget: getMarkerMoveTarget(context, markerInfo),
+    };
+  }
+
+  return {
+    report,
+    problems: report.ruleMatches.map(({ line, rule }) => ({
+      kind: "rule-match",
+      line,
+      message: `Kept by protection rule ${rule}.`,
+    })),
+  };
+}
+
+export function getMarkerProblems(
+  text: string,
+  config?: Partial<ProcessorConfig>,
+): MarkerProblem[] {
+  return analyzeMarker(text, config).problems;
+}
+
+/**
+ * Lists protected calls whose callback has a multi-line block body, i.e. the places
+ * a marker can be inserted.
+ */
+export function getProtectedCallbacks(
+  text: string,
+  config?: Partial<ProcessorConfig>,
+): ProtectedCallbackInfo[] {
+  const normalizedConfig = normalizeConfig(config);
+  const project = new Project({ useInMemoryFileSystem: true });
+  const sourceFile = project.createSourceFile(getParseFileName(normalizedConfig), text, {
+    overwrite: true,
+  });
+
+  const isProtectedFunction = createFileProtectedFunctionMatcher(
+    sourceFile,
+    normalizedConfig.protectedFunctions,
+  );
+  const isProtectedDecorator = createProtectedFunctionMatcher(
+    normalizedConfig.protectedDecorators,
+  );
+  return getProtectedCallInfos(sourceFile, isProtectedFunction, isProtectedDecorator).filter(
+    isProtectedCallbackInfo,
+  );
+}
+
+/**
+ * Title path of the test around a 0-based line: the innermost titled protected call that
+ * is not a step (`step()`, `test.step()`), e.g. `["login", "succeeds"]`.
+ */
+export function getTestTitlePathAt(
+  text: string,
+  line: number,
+  config?: Partial<ProcessorConfig>,
+): string[] | undefined {
+  const enclosingCalls = getProtectedCallbacks(text, config).filter(
+    (info) =>
+      info.title !== undefined &&
+      !isStepCallName(info.name) &&
+      info.startLine <= line &&
+      line <= info.endLine,
+  );
+  const innermost = enclosingCalls.reduce<ProtectedCallbackInfo | undefined>(
+    (current, info) => (!current || info.startLine >= current.startLine ? info : current),
+    undefined,
+  );
+  return innermost?.titlePath;
+}
+
+export function getLeadingWhitespace(text: string): string {
   const match = text.match(/^\s*/);
   return match ? match[0] : "";
 }
 
+function getSyntaxErrorLines(text: string, fileName: string): Map<number, string> {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const sourceFile = project.createSourceFile(fileName, text, { overwrite: true });
+  const errorLines = new Map<number, string>();
+
+  for (const diagnostic of project.getProgram().getSyntacticDiagnostics(sourceFile)) {
+    const line = diagnostic.getLineNumber();
+    if (line === undefined || errorLines.has(line)) {
+      continue;
+    }
+    const messageText = diagnostic.getMessageText();
+    errorLines.set(
+      line,
+      typeof messageText === "string" ? messageText : messageText.getMessageText(),
+    );
+  }
+
+  return errorLines;
+}
+
+function replaceMarkerLine(text: string, markerLine: number, tag: string): string {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines = text.split(/\r?\n/);
+  const markerText = lines[markerLine];
+  lines[markerLine] = `${getLeadingWhitespace(markerText)}${tag}`;
+  return lines.join(eol);
+}
+
+/**
+ * Checks that a debug transform can be reversed byte-for-byte by undebug and that it
+ * does not introduce syntax errors. Lines are reported 1-based.
+ */
+export function getDebugTransformSafetyIssues(
+  originalText: string,
+  transformedText: string,
+  config?: Partial<ProcessorConfig>,
+): TransformSafetyIssue[] {
+  const markerInfo = getMarkerInfo(originalText);
+  if (!markerInfo || markerInfo.mode !== "debug" || transformedText === originalText) {
+    return [];
+  }
+
+  const issues: TransformSafetyIssue[] = [];
+
+  const undebugInput = replaceMarkerLine(transformedText, markerInfo.markerLine, UNDEBUG_TAG);
+  const restoredText = replaceMarkerLine(
+    computeTransformedTextWithConfig(undebugInput, config),
+    markerInfo.markerLine,
+    originalText.split(/\r?\n/)[markerInfo.markerLine].trim(),
+  );
+  if (restoredText !== originalText) {
+    // Keep line terminators so mixed line endings show up as per-line differences.
+    const originalLines = originalText.split(/(?<=\n)/);
+    const restoredLines = restoredText.split(/(?<=\n)/);
+    const lineCount = Math.max(originalLines.length, restoredLines.length);
+    for (let i = 0; i < lineCount; i += 1) {
+      if (originalLines[i] !== restoredLines[i]) {
+        issues.push({
+          line: i + 1,
+          reason: `undebug would restore ${JSON.stringify(restoredLines[i] ?? "")} instead of ${JSON.stringify(originalLines[i] ?? "")}`,
+        });
+      }
+    }
+  }
+
+  const parseFileName = getParseFileName(normalizeConfig(config));
+  const originalErrors = getSyntaxErrorLines(originalText, parseFileName);
+  for (const [line, message] of getSyntaxErrorLines(transformedText, parseFileName)) {
+    if (!originalErrors.has(line)) {
+      issues.push({ line, reason: `debug output has a syntax error: ${message}` });
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
 export async function processFileOnSave(
   document: vscode.TextDocument,
   config?: Partial<ProcessorConfig>,
@@ -541,6 +2381,15 @@ export async function processFileOnSave(
     return false;
   }
 
+  const safetyIssues = getDebugTransformSafetyIssues(originalText, transformedText, config);
+  if (safetyIssues.length > 0) {
+    const lineList = [...new Set(safetyIssues.map((issue) => issue.line))].join(", ");
+    throw new TransformSafetyError(
+      `Debug transform cannot be cleanly reversed (line ${lineList}). File left unchanged.`,
+      safetyIssues,
+    );
+  }
+
   const fullRange = new vscode.Range(
     document.positionAt(0),
     document.positionAt(originalText.length),
@@ -553,4 +2402,9 @@ export async function processFileOnSave(
   return applied;
 }
 
-export { DEFAULT_FUNCTION_ALLOWLIST, DEFAULT_PROTECTED_FUNCTIONS };
+export {
+  DEFAULT_COMMENT_PREFIX,
+  DEFAULT_FUNCTION_ALLOWLIST,
+  DEFAULT_PROTECTED_DECORATORS,
+  DEFAULT_PROTECTED_FUNCTIONS,
+};
@@ -0,0 +1,171 @@
+export type ScriptRunPolicy = "queue" | "cancel-previous" | "ignore";
+
+const RUN_POLICIES: ScriptRunPolicy[] = ["queue", "cancel-previous", "ignore"];
+
+// "ignored": dropped by the ignore policy; "superseded": replaced by a newer request or cancelled
+// before it started.
+export type ScriptRunOutcome = "completed" | "ignored" | "superseded";
+
+export type ScriptRunTask = (signal: AbortSignal) => Promise<void>;
+
+export type ScriptRunState = {
+  active?: string;
+  queued: string[];
+};
+
+type PendingRun = {
+  label: string;
+  task: ScriptRunTask;
+  resolve: (outcome: ScriptRunOutcome) => void;
+  reject: (error: unknown) => void;
+};
+
+export function getConfiguredRunPolicy(raw: unknown): ScriptRunPolicy {
+  if (raw === undefined || raw === null) {
+    return "queue";
+  }
+  if (typeof raw !== "string" || !RUN_POLICIES.includes(raw as ScriptRunPolicy)) {
+    throw new Error(`Setting 'scriptRunner.runPolicy' must be one of: ${RUN_POLICIES.join(", ")}.`);
+  }
+  return raw as ScriptRunPolicy;
+}
+
+export function getConfiguredDebounceMs(raw: unknown): number {
+  if (raw === undefined || raw === null) {
+    return 0;
+  }
+  if (typeof raw !== "number" || !Number.isFinite(raw) || raw < 0) {
+    throw new Error("Setting 'scriptRunner.debounceMs' must be a non-negative number.");
+  }
+  return raw;
+}
+
+/**
+ * Serializes script runs so only one runs at a time. A request arriving while a run is active
+ * is queued (one entry per label), cancels the active run and starts after it, or is ignored,
+ * depending on the policy. Debounced requests wait for a quiet period; a newer debounced
+ * request for the same label replaces the waiting one.
+ */
+export class ScriptRunCoordinator {
+  private active: { label: string; controller: AbortController } | undefined;
+  private queue: PendingRun[] = [];
+  private readonly debounced = new Map<
+    string,
+    { run: PendingRun; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  constructor(
+    private readonly getPolicy: () => ScriptRunPolicy,
+    private readonly onStateChange?: (state: ScriptRunState) => void,
+  ) {}
+
+  schedule(label: string, task: ScriptRunTask, debounceMs = 0): Promise<ScriptRunOutcome> {
+    return new Promise((resolve, reject) => {
+      const run: PendingRun = { label, task, resolve, reject };
+      if (debounceMs <= 0) {
+        this.admit(run);
+        return;
+      }
+
+      this.clearDebounced(label);
+      this.debounced.set(label, {
+        run,
+        timer: setTimeout(() => {
+          this.debounced.delete(label);
+          this.admit(run);
+        }, debounceMs),
+      });
+    });
+  }
+
+  getState(): ScriptRunState {
+    return { active: this.active?.label, queued: this.queue.map((run) => run.label) };
+  }
+
+  /** Drops waiting requests and cancels the active run. */
+  cancelAll(): void {
+    for (const label of [...this.debounced.keys()]) {
+      this.clearDebounced(label);
+    }
+    this.clearQueue();
+    this.active?.controller.abort();
+    this.notify();
+  }
+
+  dispose(): void {
+    this.cancelAll();
+  }
+
+  private admit(run: PendingRun): void {
+    if (!this.active) {
+      this.start(run);
+      return;
+    }
+
+    // Admission may run from a debounce timer, where a throw would never reach the caller.
+    let policy: ScriptRunPolicy;
+    try {
+      policy = this.getPolicy();
+    } catch (error) {
+      run.reject(error);
+      return;
+    }
+    if (policy === "ignore") {
+      run.resolve("ignored");
+      return;
+    }
+    if (policy === "cancel-previous") {
+      this.clearQueue();
+      this.queue.push(run);
+      this.active.controller.abort();
+    } else {
+      const existing = this.queue.findIndex((queued) => queued.label === run.label);
+      if (existing >= 0) {
+        this.queue[existing].resolve("superseded");
+        this.queue[existing] = run;
+      } else {
+        this.queue.push(run);
+      }
+    }
+    this.notify();
+  }
+
+  private start(run: PendingRun): void {
+    const controller = new AbortController();
+    this.active = { label: run.label, controller };
+    this.notify();
+
+    Promise.resolve()
+      .then(() => run.task(controller.signal))
+      .then(() => run.resolve("completed"), run.reject)
+      .finally(() => {
+        this.active = undefined;
+        const next = this.queue.shift();
+        if (next) {
+          this.start(next);
+        } else {
+          this.notify();
+        }
+      });
+  }
+
+  private clearDebounced(label: string): void {
+    const waiting = this.debounced.get(label);
+    if (waiting) {
+      clearTimeout(waiting.timer);
+      waiting.run.resolve("superseded");
+      this.debounced.delete(label);
+    }
+  }
+
+  private clearQueue(): void {
+    for (const run of this.queue) {
+      run.resolve("superseded");
+    }
+    this.queue = [];
+  }
+
+  private notify(): void {
+    this.onStateChange?.(this.getState());
+  }
+}
@@ -1,20 +1,42 @@
-import { exec } from "node:child_process";
+import { ChildProcess, spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
 import * as path from "node:path";
 
+// Captured output keeps the last 1 MB per stream; the full output is streamed via onOutput.
+const MAX_CAPTURED_OUTPUT = 1024 * 1024;
+const KILL_GRACE_PERIOD_MS = 2000;
+
+export type ScriptFailureReason = "exit-code" | "timeout" | "cancelled";
+
 export class ScriptExecutionError extends Error {
   readonly exitCode: number | null;
   readonly stdout: string;
   readonly stderr: string;
+  readonly reason: ScriptFailureReason;
 
-  constructor(message: string, exitCode: number | null, stdout: string, stderr: string) {
+  constructor(
+    message: string,
+    exitCode: number | null,
+    stdout: string,
+    stderr: string,
+    reason: ScriptFailureReason = "exit-code",
+  ) {
     super(message);
     this.name = "ScriptExecutionError";
     this.exitCode = exitCode;
     this.stdout = stdout;
     this.stderr = stderr;
+    this.reason = reason;
   }
 }
 
+export type ScriptRunOptions = {
+  // Milliseconds before the process tree is killed; 0 or undefined means no timeout.
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onOutput?: (stream: "stdout" | "stderr", chunk: string) => void;
+};
+
 export function getConfiguredScriptCommand(raw: unknown): string | undefined {
   if (raw === undefined || raw === null) {
     return undefined;
@@ -26,33 +48,387 @@ export function getConfiguredScriptCommand(raw: unknown): string | undefined {
   return normalized.length > 0 ? normalized : undefined;
 }
 
+export type ScriptRunnerProfile = {
+  name: string;
+  glob: string;
+  command: string;
+  // Working directory, relative to the workspace folder unless absolute.
+  cwd?: string;
+  env: Record<string, string>;
+};
+
+export function getConfiguredScriptProfiles(raw: unknown): ScriptRunnerProfile[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error("Setting 'scriptRunner.profiles' must be an array of objects.");
+  }
+
+  return raw.map((entry: unknown, index) => {
+    const profile = (entry ?? {}) as Record<string, unknown>;
+    const glob = typeof profile.glob === "string" ? profile.glob.trim() : "";
+    const command = getConfiguredScriptCommand(profile.command);
+    if (glob.length === 0 || !command) {
+      throw new Error(
+        `Setting 'scriptRunner.profiles' entry ${index + 1} must have non-empty 'glob' and 'command' strings.`,
+      );
+    }
+    try {
+      globToRegExp(glob);
+    } catch {
+      throw new Error(`Setting 'scriptRunner.profiles' entry ${index + 1} glob '${glob}' is not valid.`);
+    }
+    if (profile.name !== undefined && typeof profile.name !== "string") {
+      throw new Error(`Setting 'scriptRunner.profiles' entry ${index + 1} 'name' must be a string.`);
+    }
+    if (profile.cwd !== undefined && typeof profile.cwd !== "string") {
+      throw new Error(`Setting 'scriptRunner.profiles' entry ${index + 1} 'cwd' must be a string.`);
+    }
+    const env = getConfiguredScriptEnv(
+      profile.env,
+      `Setting 'scriptRunner.profiles' entry ${index + 1} 'env'`,
+    );
+
+    return {
+      name: profile.name?.trim() || glob,
+      glob,
+      command,
+      cwd: profile.cwd?.trim() || undefined,
+      env,
+    };
+  });
+}
+
+export function getConfiguredScriptEnv(
+  raw: unknown,
+  settingLabel = "Setting 'scriptRunner.env'",
+): Record<string, string> {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (
+    typeof raw !== "object" ||
+    Array.isArray(raw) ||
+    Object.values(raw).some((value) => typeof value !== "string")
+  ) {
+    throw new Error(`${settingLabel} must map names to strings.`);
+  }
+  return { ...(raw as Record<string, string>) };
+}
+
+/** Optional path setting (`scriptRunner.cwd`, `scriptRunner.envFile`); empty means unset. */
+export function getConfiguredScriptPath(raw: unknown, settingName: string): string | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw !== "string") {
+    throw new Error(`Setting '${settingName}' must be a string.`);
+  }
+  const normalized = raw.trim();
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+const DOTENV_LINE_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*?)\s*$/;
+
+/**
+ * Parses `.env` text: `NAME=value` lines, optional `export`, `#` comments, single-quoted
+ * values taken literally and double-quoted values with `\n`, `\t`, `\"` and `\\` escapes.
+ * Double-quoted values may span several lines.
+ */
+export function parseDotEnv(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index += 1) {
+    const match = DOTENV_LINE_PATTERN.exec(lines[index]);
+    if (!match) {
+      continue;
+    }
+    const [, name] = match;
+    let value = match[2];
+
+    if (value.startsWith('"')) {
+      // Join following lines until the closing unescaped quote.
+      while (!/^"(?:[^"\\]|\\.)*"/.test(value) && index + 1 < lines.length) {
+        index += 1;
+        value += `\n${lines[index]}`;
+      }
+      const quoted = /^"((?:[^"\\]|\\.)*)"/.exec(value);
+      value = (quoted ? quoted[1] : value.slice(1)).replace(/\\([nrt"\\])/g, (_escape, char: string) =>
+        char === "n" ? "\n" : char === "r" ? "\r" : char === "t" ? "\t" : char,
+      );
+    } else if (value.startsWith("'")) {
+      const quoted = /^'([^']*)'/.exec(value);
+      value = quoted ? quoted[1] : value.slice(1);
+    } else {
+      value = value.replace(/\s+#.*$/, "");
+    }
+    result[name] = value;
+  }
+  return result;
+}
+
+export async function loadDotEnvFile(filePath: string): Promise<Record<string, string>> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Setting 'scriptRunner.envFile' could not be read: ${message}`);
+  }
+  return parseDotEnv(text);
+}
+
+export function getConfiguredMaskPatterns(raw: unknown): RegExp[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw) || raw.some((value) => typeof value !== "string")) {
+    throw new Error("Setting 'scriptRunner.maskEnvPatterns' must be an array of strings.");
+  }
+  return raw
+    .map((value: string) => value.trim())
+    .filter((value) => value.length > 0)
+    .map(
+      (pattern) =>
+        new RegExp(
+          `^${pattern
+            .split("*")
+            .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+            .join(".*")}$`,
+          "i",
+        ),
+    );
+}
+
+/**
+ * `NAME=value` lines for the output channel; values of names matching a mask pattern
+ * (case-insensitive, `*` wildcard) are replaced with `***`.
+ */
+export function formatScriptEnvForLog(env: Record<string, string>, maskPatterns: RegExp[]): string[] {
+  return Object.keys(env)
+    .sort()
+    .map((name) =>
+      maskPatterns.some((pattern) => pattern.test(name)) ? `${name}=***` : `${name}=${env[name]}`,
+    );
+}
+
+// `**` matches across directories, `*` and `?` within one segment, `{a,b}` either alternative.
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const followedBySlash = glob[i + 2] === "/";
+      source += followedBySlash ? "(?:.*/)?" : ".*";
+      i += followedBySlash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braceDepth += 1;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * First profile whose glob matches the file path relative to the workspace folder
+ * (forward slashes), e.g. `apps/mobile/specs/login.spec.ts` for `apps/mobile/**`.
+ */
+export function findScriptProfile(
+  profiles: ScriptRunnerProfile[],
+  relativeFilePath: string,
+): ScriptRunnerProfile | undefined {
+  const normalizedPath = relativeFilePath.split(path.sep).join("/");
+  return profiles.find((profile) => globToRegExp(profile.glob).test(normalizedPath));
+}
+
 function escapeShellSingleQuote(value: string): string {
   return `'${value.replace(/'/g, `'\\''`)}'`;
 }
 
-export function buildScriptCommand(baseCommand: string, filePath: string): string {
-  return `${baseCommand} ${escapeShellSingleQuote(filePath)}`;
+/** Values for `${name}` placeholders in `scriptRunner.command`. */
+export type ScriptCommandVariables = {
+  relativeFile?: string;
+  // 1-based line of the `//@debug` marker or the cursor.
+  line?: number;
+  testTitle?: string;
+  workspaceFolder?: string;
+};
+
+const PLACEHOLDER_PATTERN = /\$\{(file|relativeFile|line|testTitle|workspaceFolder)\}/g;
+
+/** Lets callers skip computing costly values, such as the test title, that are not used. */
+export function usesScriptPlaceholder(
+  baseCommand: string,
+  name: "file" | keyof ScriptCommandVariables,
+): boolean {
+  return baseCommand.includes(`\${${name}}`);
+}
+
+/**
+ * Substitutes `${file}`, `${relativeFile}`, `${line}`, `${testTitle}` and `${workspaceFolder}`
+ * with shell-quoted values. Without any of them the quoted file path is appended instead.
+ * Other `${...}` text, such as shell variables, is left alone.
+ */
+export function buildScriptCommand(
+  baseCommand: string,
+  filePath: string,
+  variables: ScriptCommandVariables = {},
+): string {
+  if (baseCommand.match(PLACEHOLDER_PATTERN) === null) {
+    return `${baseCommand} ${escapeShellSingleQuote(filePath)}`;
+  }
+
+  const values: Record<string, string> = {
+    file: filePath,
+    relativeFile: variables.relativeFile ?? path.basename(filePath),
+    line: variables.line !== undefined ? String(variables.line) : "",
+    testTitle: variables.testTitle ?? "",
+    workspaceFolder: variables.workspaceFolder ?? path.dirname(filePath),
+  };
+  return baseCommand.replace(PLACEHOLDER_PATTERN, (_match, name: string) =>
+    escapeShellSingleQuote(values[name]),
+  );
+}
+
+export function getConfiguredScriptTimeoutMs(raw: unknown): number | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw !== "number" || !Number.isFinite(raw) || raw < 0) {
+    throw new Error("Setting 'scriptRunner.timeoutSeconds' must be a non-negative number.");
+  }
+  return raw > 0 ? raw * 1000 : undefined;
+}
+
+/**
+ * Kills the shell and everything it started. POSIX scripts run in their own process group
+ * (`detached`), so the group gets SIGTERM and, if still alive after a grace period, SIGKILL.
+ */
+function killProcessTree(child: ChildProcess): void {
+  const pid = child.pid;
+  if (pid === undefined) {
+    return;
+  }
+
+  if (process.platform === "win32") {
+    spawn("taskkill", ["/pid", String(pid), "/T", "/F"], { stdio: "ignore" }).on("error", () => {
+      // taskkill is unavailable; the shell exits on its own or with the editor.
+    });
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // The group is already gone.
+    }
+  };
+  signalGroup("SIGTERM");
+  setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_PERIOD_MS).unref();
+}
+
+function appendCapped(captured: string, chunk: string): string {
+  const combined = captured + chunk;
+  return combined.length > MAX_CAPTURED_OUTPUT ? combined.slice(-MAX_CAPTURED_OUTPUT) : combined;
 }
 
 export async function runScriptCommand(
   command: string,
   cwd?: string,
+  env?: Record<string, string>,
+  options?: ScriptRunOptions,
 ): Promise<{ stdout: string; stderr: string }> {
   return new Promise((resolve, reject) => {
-    exec(command, { cwd, maxBuffer: 1024 * 1024 * 10 }, (error, stdout, stderr) => {
+    if (options?.signal?.aborted) {
+      reject(new ScriptExecutionError("Script was cancelled.", null, "", "", "cancelled"));
+      return;
+    }
+
+    const child = spawn(command, {
+      cwd,
+      env: env ? { ...process.env, ...env } : process.env,
+      shell: true,
+      detached: process.platform !== "win32",
+    });
+    let stdout = "";
+    let stderr = "";
+    let stopReason: ScriptFailureReason | undefined;
+
+    const stop = (reason: ScriptFailureReason) => {
+      if (stopReason === undefined) {
+        stopReason = reason;
+        killProcessTree(child);
+      }
+    };
+    const onAbort = () => stop("cancelled");
+    options?.signal?.addEventListener("abort", onAbort);
+    const timeout = options?.timeoutMs
+      ? setTimeout(() => stop("timeout"), options.timeoutMs)
+      : undefined;
+
+    child.stdout.setEncoding("utf8");
+    child.stderr.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => {
+      stdout = appendCapped(stdout, chunk);
+      options?.onOutput?.("stdout", chunk);
+    });
+    child.stderr.on("data", (chunk: string) => {
+      stderr = appendCapped(stderr, chunk);
+      options?.onOutput?.("stderr", chunk);
+    });
+
+    const finish = (error?: ScriptExecutionError) => {
+      clearTimeout(timeout);
+      options?.signal?.removeEventListener("abort", onAbort);
       if (error) {
-        reject(
+        reject(error);
+      } else {
+        resolve({ stdout, stderr });
+      }
+    };
+
+    child.on("error", (error) => {
+      finish(new ScriptExecutionError(`Script could not be started: ${error.message}`, null, stdout, stderr));
+    });
+    child.on("close", (code, signal) => {
+      if (stopReason === "timeout") {
+        finish(
+          new ScriptExecutionError(
+            `Script timed out after ${options?.timeoutMs} ms.`,
+            code,
+            stdout,
+            stderr,
+            "timeout",
+          ),
+        );
+      } else if (stopReason === "cancelled") {
+        finish(new ScriptExecutionError("Script was cancelled.", code, stdout, stderr, "cancelled"));
+      } else if (code !== 0) {
+        finish(
           new ScriptExecutionError(
-            `Script failed with exit code ${error.code ?? "unknown"}.`,
-            typeof error.code === "number" ? error.code : null,
+            `Script failed with exit code ${code ?? signal ?? "unknown"}.`,
+            code,
             stdout,
             stderr,
           ),
         );
-        return;
+      } else {
+        finish();
       }
-
-      resolve({ stdout, stderr });
     });
   });
 }
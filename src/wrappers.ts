@@ -0,0 +1,212 @@
+import * as path from "node:path";
+import {
+  FunctionDeclaration,
+  Node,
+  Project,
+  SourceFile,
+  SyntaxKind,
+  VariableDeclaration,
+} from "ts-morph";
+import { findNearestFile } from "./presets";
+import { createFileProtectedFunctionMatcher, getCalleeName } from "./processor";
+
+// How many wrapper modules deep `test -> wrapper -> wrapper -> it` chains are followed.
+const MAX_WRAPPER_DEPTH = 3;
+
+type ProtectedFunctionMatcher = (calleeName: string) => boolean;
+
+type ImportBinding = {
+  localName: string;
+  exportName: string;
+};
+
+const wrapperCache = new Map<string, string[]>();
+
+export function clearWrapperCache(): void {
+  wrapperCache.clear();
+}
+
+function getImportBindings(sourceFile: SourceFile): Map<SourceFile, ImportBinding[]> {
+  const bindings = new Map<SourceFile, ImportBinding[]>();
+
+  for (const importDeclaration of sourceFile.getImportDeclarations()) {
+    const moduleFile = importDeclaration.getModuleSpecifierSourceFile();
+    if (!moduleFile) {
+      continue;
+    }
+
+    const moduleBindings = bindings.get(moduleFile) ?? [];
+    const defaultImport = importDeclaration.getDefaultImport();
+    if (defaultImport) {
+      moduleBindings.push({ localName: defaultImport.getText(), exportName: "default" });
+    }
+    for (const namedImport of importDeclaration.getNamedImports()) {
+      moduleBindings.push({
+        localName: namedImport.getAliasNode()?.getText() ?? namedImport.getName(),
+        exportName: namedImport.getName(),
+      });
+    }
+    bindings.set(moduleFile, moduleBindings);
+  }
+
+  return bindings;
+}
+
+function containsProtectedCall(node: Node, isProtectedFunction: ProtectedFunctionMatcher): boolean {
+  return node.getDescendantsOfKind(SyntaxKind.CallExpression).some((call) => {
+    const name = getCalleeName(call.getExpression());
+    return name !== undefined && isProtectedFunction(name);
+  });
+}
+
+function isWrapperDeclaration(
+  declaration: Node,
+  isProtectedFunction: ProtectedFunctionMatcher,
+): boolean {
+  const sourceFile = declaration.getSourceFile();
+  if (sourceFile.isInNodeModules() || sourceFile.isDeclarationFile()) {
+    // Re-exports of the framework itself, e.g. `export { it as test } from "mocha"`.
+    return Node.hasName(declaration) && isProtectedFunction(declaration.getName());
+  }
+
+  if (Node.isFunctionDeclaration(declaration)) {
+    return containsProtectedCall(declaration, isProtectedFunction);
+  }
+
+  if (!Node.isVariableDeclaration(declaration)) {
+    return false;
+  }
+
+  const initializer = declaration.getInitializer();
+  if (!initializer) {
+    return false;
+  }
+  if (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer)) {
+    return containsProtectedCall(initializer, isProtectedFunction);
+  }
+
+  // `export const test = it` or fixture-style `export const test = base.extend({...})`.
+  const calleeName = Node.isCallExpression(initializer)
+    ? getCalleeName(initializer.getExpression())?.replace(/\.[^.]+$/, "")
+    : getCalleeName(initializer);
+  return calleeName !== undefined && isProtectedFunction(calleeName);
+}
+
+function getLocalDeclarations(
+  sourceFile: SourceFile,
+): (FunctionDeclaration | VariableDeclaration)[] {
+  return [
+    ...sourceFile.getFunctions(),
+    ...sourceFile.getVariableStatements().flatMap((statement) => statement.getDeclarations()),
+  ];
+}
+
+class WrapperResolver {
+  private readonly matchers = new Map<string, ProtectedFunctionMatcher>();
+  private readonly inProgress = new Set<string>();
+
+  constructor(private readonly protectedFunctions: string[]) {}
+
+  getWrapperNames(sourceFile: SourceFile, depth: number): string[] {
+    const names: string[] = [];
+    if (depth <= 0) {
+      return names;
+    }
+
+    for (const [moduleFile, bindings] of getImportBindings(sourceFile)) {
+      const exportedDeclarations = moduleFile.getExportedDeclarations();
+      for (const binding of bindings) {
+        const declarations = exportedDeclarations.get(binding.exportName) ?? [];
+        const isWrapper = declarations.some((declaration) =>
+          isWrapperDeclaration(declaration, this.getMatcher(declaration.getSourceFile(), depth - 1)),
+        );
+        if (isWrapper) {
+          names.push(binding.localName);
+        }
+      }
+    }
+
+    return names;
+  }
+
+  private getMatcher(sourceFile: SourceFile, depth: number): ProtectedFunctionMatcher {
+    const key = sourceFile.getFilePath();
+    const cached = this.matchers.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    // Import cycles fall back to the configured names for the file being resolved.
+    if (this.inProgress.has(key) || sourceFile.isInNodeModules()) {
+      return createFileProtectedFunctionMatcher(sourceFile, this.protectedFunctions);
+    }
+
+    this.inProgress.add(key);
+    const wrapperNames = [...this.protectedFunctions, ...this.getWrapperNames(sourceFile, depth)];
+    this.inProgress.delete(key);
+
+    // Wrappers calling other wrappers from the same module, until nothing new is found.
+    let matcher = createFileProtectedFunctionMatcher(sourceFile, wrapperNames);
+    let found = true;
+    while (found) {
+      found = false;
+      for (const declaration of getLocalDeclarations(sourceFile)) {
+        const name = declaration.getName();
+        if (name && !wrapperNames.includes(name) && isWrapperDeclaration(declaration, matcher)) {
+          wrapperNames.push(name);
+          found = true;
+        }
+      }
+      matcher = createFileProtectedFunctionMatcher(sourceFile, wrapperNames);
+    }
+
+    this.matchers.set(key, matcher);
+    return matcher;
+  }
+}
+
+function createProject(filePath: string, rootDir?: string): Project {
+  const tsConfigFilePath = findNearestFile(["tsconfig.json", "jsconfig.json"], filePath, rootDir);
+  return new Project({
+    tsConfigFilePath,
+    skipAddingFilesFromTsConfig: true,
+    skipFileDependencyResolution: true,
+    compilerOptions: { allowJs: true },
+  });
+}
+
+function getImportsKey(filePath: string, text: string): string {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const sourceFile = project.createSourceFile(path.basename(filePath), text, { overwrite: true });
+  return [filePath, ...sourceFile.getImportDeclarations().map((node) => node.getText())].join(
+    "\n",
+  );
+}
+
+/**
+ * Finds imported functions that wrap protected functions, following local modules
+ * (relative imports and tsconfig `paths`) up to MAX_WRAPPER_DEPTH levels. Returns the
+ * local names bound in the file, e.g. `test` for `import { test } from "@utils/mocha"`.
+ */
+export function discoverWrapperFunctions(
+  filePath: string,
+  text: string,
+  protectedFunctions: string[],
+  rootDir?: string,
+): string[] {
+  const key = `${protectedFunctions.join(",")}\n${getImportsKey(filePath, text)}`;
+  const cached = wrapperCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const project = createProject(filePath, rootDir);
+  const sourceFile = project.createSourceFile(filePath, text, { overwrite: true });
+  const wrapperNames = new WrapperResolver(protectedFunctions).getWrapperNames(
+    sourceFile,
+    MAX_WRAPPER_DEPTH,
+  );
+
+  wrapperCache.set(key, wrapperNames);
+  return wrapperNames;
+}
@@ -4,10 +4,13 @@ import * as os from "node:os";
 import * as path from "node:path";
 import { before, describe, it } from "mocha";
 import * as vscode from "vscode";
+import { getTransformDecorationRanges } from "../../src/decorations";
 import { __setTestHooks } from "../../src/extension";
+import { computeTransformReport } from "../../src/processor";
 
 const COMMAND_ID = "mocha-debug-helper.toggleDebug";
 const RUN_SCRIPT_COMMAND_ID = "mocha-debug-helper.runScriptForFocusedFile";
+const PREVIEW_COMMAND_ID = "mocha-debug-helper.previewTransform";
 const SCRIPT_RUNNER_CONFIG_PREFIX = "narukami-dev.mochaTestDebugHelper.scriptRunner";
 const capturedOutput: string[] = [];
 const capturedProgressTitles: string[] = [];
@@ -79,6 +82,17 @@ async function ensureExtensionActivated(): Promise<void> {
   }
 }
 
+async function getQuickFixes(uri: vscode.Uri, line: number): Promise<vscode.CodeAction[]> {
+  return (
+    (await vscode.commands.executeCommand<vscode.CodeAction[]>(
+      "vscode.executeCodeActionProvider",
+      uri,
+      new vscode.Range(line, 0, line, 0),
+      vscode.CodeActionKind.QuickFix.value,
+    )) ?? []
+  );
+}
+
 async function createTempTestFile(fileName: string, content: string): Promise<vscode.Uri> {
   const workspace = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   const baseDir = workspace ?? path.join(os.tmpdir(), "mocha-test-debug-helper-tests");
@@ -142,9 +156,190 @@ describe("extension integration", () => {
     const refreshed = await vscode.workspace.openTextDocument(uri);
     const lines = refreshed.getText().split(/\r?\n/);
 
-    assert.strictEqual(lines[2].trim(), "//console.log('1')");
+    assert.strictEqual(lines[2].trim(), "//@dbg console.log('1')");
     assert.strictEqual(lines[5].trim(), "const a = 'abc'");
-    assert.strictEqual(lines[6].trim(), "//console.log('2')");
+    assert.strictEqual(lines[6].trim(), "//@dbg console.log('2')");
+  });
+
+  it("preview command applies the transform only after Apply is chosen", async () => {
+    const uri = await createTempTestFile(
+      "preview-apply.ts",
+      [
+        "describe('', async function(){",
+        "    test('', async function(){",
+        "        console.log('1')",
+        "        //@debug",
+        "    })",
+        "})",
+      ].join("\n"),
+    );
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc);
+
+    const windowApi = vscode.window as unknown as {
+      showInformationMessage: (message: string, ...items: string[]) => Thenable<string | undefined>;
+    };
+    const originalShowInformationMessage = windowApi.showInformationMessage;
+    const choices = ["Discard", "Apply"];
+    windowApi.showInformationMessage = async () => choices.shift();
+
+    try {
+      await vscode.commands.executeCommand(PREVIEW_COMMAND_ID);
+      assert.strictEqual(doc.lineAt(2).text.trim(), "console.log('1')");
+
+      await vscode.window.showTextDocument(doc);
+      await vscode.commands.executeCommand(PREVIEW_COMMAND_ID);
+      await sleep(300);
+      assert.strictEqual(doc.lineAt(2).text.trim(), "//@dbg console.log('1')");
+      assert.strictEqual(doc.isDirty, false);
+    } finally {
+      windowApi.showInformationMessage = originalShowInformationMessage;
+    }
+  });
+
+  it("maps a transform report to changed and protected decoration ranges", async () => {
+    const uri = await createTempTestFile(
+      "decoration-ranges.ts",
+      [
+        "describe('x', function () {",
+        "  it('a', async function () {",
+        "    this.timeout(5000);",
+        "    console.log('1');",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n"),
+    );
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const report = computeTransformReport(doc.getText(), {
+      protectionRules: [{ call: "this.timeout" }],
+    });
+
+    const ranges = getTransformDecorationRanges(doc, report);
+    const describeRanges = (options: vscode.DecorationOptions[]) =>
+      options.map((option) => [option.range.start.line, option.range.end.character, option.hoverMessage]);
+
+    assert.deepStrictEqual(describeRanges(ranges.changed), [
+      [3, doc.lineAt(3).text.length, "Will be commented on save"],
+    ]);
+    assert.deepStrictEqual(describeRanges(ranges.protected), [
+      [1, doc.lineAt(1).text.length, "Kept on save: protected call header/closure"],
+      [2, doc.lineAt(2).text.length, "Kept on save: protection rule call 'this.timeout'"],
+    ]);
+  });
+
+  it("moves a marker outside any callback into the nearest test where it has an effect", async () => {
+    const uri = await createTempTestFile(
+      "move-marker.ts",
+      [
+        "//@debug",
+        "describe('x', () => {",
+        "  it('a', () => {",
+        "    console.log('1');",
+        "  });",
+        "  it('b', () => {",
+        "    console.log('2');",
+        "  });",
+        "});",
+      ].join("\n"),
+    );
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc);
+    await sleep(500);
+
+    // Moving into `describe` or the first test would leave nothing to comment before the marker.
+    const move = (await getQuickFixes(uri, 0)).find((action) => action.title.startsWith("Move marker"));
+    assert.ok(move?.edit, "expected a move marker quick fix");
+    assert.strictEqual(move.title, "Move marker into nearest it()");
+    await vscode.workspace.applyEdit(move.edit);
+
+    assert.deepStrictEqual(
+      doc.getText().split(/\r?\n/).slice(4, 7),
+      ["  it('b', () => {", "    //@debug", "    console.log('2');"],
+    );
+  });
+
+  it("offers removing invalid marker options instead of moving the marker", async () => {
+    const uri = await createTempTestFile(
+      "invalid-marker-option.ts",
+      [
+        "describe('x', () => {",
+        "  it('a', () => {",
+        "    console.log('1');",
+        "    //@debug(keep-all)",
+        "  });",
+        "});",
+      ].join("\n"),
+    );
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc);
+    await sleep(500);
+
+    const actions = await getQuickFixes(uri, 3);
+    assert.deepStrictEqual(
+      actions.map((action) => action.title),
+      ["Remove invalid options"],
+    );
+    assert.ok(actions[0].edit);
+    await vscode.workspace.applyEdit(actions[0].edit);
+    assert.strictEqual(doc.lineAt(3).text, "    //@debug");
+  });
+
+  it("shows Run this test only above suites and tests", async () => {
+    const uri = await createTempTestFile(
+      "run-test-lens.ts",
+      [
+        "describe('login', () => {",
+        "  before('setup', async () => {",
+        "    console.log('setup');",
+        "  });",
+        "  it('succeeds', async () => {",
+        "    await step('submit', async () => {",
+        "      console.log('submit');",
+        "    });",
+        "  });",
+        "});",
+      ].join("\n"),
+    );
+    const lenses =
+      (await vscode.commands.executeCommand<vscode.CodeLens[]>(
+        "vscode.executeCodeLensProvider",
+        uri,
+      )) ?? [];
+
+    assert.deepStrictEqual(
+      lenses
+        .filter((lens) => lens.command?.title === "Run this test")
+        .map((lens) => [lens.range.start.line, lens.command?.arguments?.[1]]),
+      [
+        [0, ["login"]],
+        [4, ["login", "succeeds"]],
+      ],
+    );
+  });
+
+  it("reports an unreadable preset on the marker without failing quick fixes", async () => {
+    const config = vscode.workspace.getConfiguration("narukami-dev.mochaTestDebugHelper");
+    await config.update("preset", "unknown", vscode.ConfigurationTarget.Workspace);
+    try {
+      const uri = await createTempTestFile(
+        "invalid-preset.ts",
+        ["//@debug", "describe('x', () => {", "  it('a', () => {", "  });", "});"].join("\n"),
+      );
+      const doc = await vscode.workspace.openTextDocument(uri);
+      await vscode.window.showTextDocument(doc);
+      await sleep(500);
+
+      assert.deepStrictEqual(
+        vscode.languages
+          .getDiagnostics(uri)
+          .map((diagnostic) => [diagnostic.code, diagnostic.range.start.line]),
+        [["invalid-configuration", 0]],
+      );
+      assert.deepStrictEqual(await getQuickFixes(uri, 0), []);
+    } finally {
+      await config.update("preset", undefined, vscode.ConfigurationTarget.Workspace);
+    }
   });
 
   it("manual run (runOnSave=false) shows progress toast and writes output channel logs", async () => {
@@ -8,7 +8,14 @@ export function run(): Promise<void> {
   });
 
   const testsRoot = __dirname;
-  const testFiles = ["extension.test.js", "logic.test.js", "scriptRunner.test.js"];
+  const testFiles = [
+    "extension.test.js",
+    "logic.test.js",
+    "presets.test.js",
+    "runCoordinator.test.js",
+    "scriptRunner.test.js",
+    "wrappers.test.js",
+  ];
 
   for (const testFile of testFiles) {
     mocha.addFile(path.resolve(testsRoot, testFile));
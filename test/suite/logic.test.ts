@@ -1,6 +1,37 @@
 import * as assert from "node:assert";
 import { describe, it } from "mocha";
-import { computeTransformedText, computeTransformedTextWithConfig } from "../../src/processor";
+import {
+  analyzeMarker,
+  computeTransformedText,
+  computeTransformedTextWithConfig,
+  computeTransformReport,
+  getDebugTransformSafetyIssues,
+  getMarkerProblems,
+  getProtectedCallbacks,
+  getScriptFileKind,
+  getTestTitlePathAt,
+  ProtectionRule,
+} from "../../src/processor";
+
+// A spec of about ten lines per test, with the marker in a last test after all of them.
+function createLargeSpec(testCount: number): string {
+  const lines = ["describe('large', function () {"];
+  for (let i = 0; i < testCount; i += 1) {
+    lines.push(
+      `  it('case ${i}', async function () {`,
+      `    const message = \`first ${i}`,
+      "      second`;",
+      `    const items = [1, 2, 3].map((item) => item * ${i});`,
+      "    if (items.length > 0) {",
+      "      console.log(message, items);",
+      "    }",
+      "    expect(items).to.have.length(3);",
+      "  });",
+    );
+  }
+  lines.push("  it('last', async function () {", "    //@debug", "  });", "});");
+  return lines.join("\n");
+}
 
 describe("processor logic", () => {
   it("debug mode comments lines before marker and skips protected lines", () => {
@@ -20,28 +51,130 @@ describe("processor logic", () => {
     const output = computeTransformedText(input);
     const lines = output.split("\n");
 
-    assert.strictEqual(lines[2], "        //console.log('1')");
+    assert.strictEqual(lines[2], "        //@dbg console.log('1')");
     assert.strictEqual(lines[5], "        const a = 'abc'");
-    assert.strictEqual(lines[6], "        //console.log('2')");
+    assert.strictEqual(lines[6], "        //@dbg console.log('2')");
     assert.strictEqual(lines[8], "    //@debug");
   });
 
   it("undebug mode strips only first comment prefix", () => {
+    const input = [
+      "describe('x', async function(){",
+      "    before('', async function(){",
+      "        //@dbg //@dbg console.log('1')",
+      "        //@dbg console.log('2')",
+      "    })",
+      "    //@undebug",
+      "})",
+    ].join("\n");
+
+    const output = computeTransformedText(input);
+    const lines = output.split("\n");
+
+    assert.strictEqual(lines[2], "        //@dbg console.log('1')");
+    assert.strictEqual(lines[3], "        console.log('2')");
+  });
+
+  it("undebug mode leaves hand-written comments and commented-out code alone", () => {
+    const input = [
+      "describe('x', async function(){",
+      "    before('', async function(){",
+      "        //@dbg // wait for animation",
+      "        // wait for animation",
+      "        //console.log('disabled')",
+      "        //@dbg console.log('1')",
+      "    })",
+      "    //@undebug",
+      "})",
+    ].join("\n");
+
+    const output = computeTransformedText(input);
+    const lines = output.split("\n");
+
+    assert.strictEqual(lines[2], "        // wait for animation");
+    assert.strictEqual(lines[3], "        // wait for animation");
+    assert.strictEqual(lines[4], "        //console.log('disabled')");
+    assert.strictEqual(lines[5], "        console.log('1')");
+  });
+
+  it("debug then undebug restores original text with a custom comment prefix", () => {
+    const original = [
+      "describe('x', async function(){",
+      "    before('', async function(){",
+      "        // wait for animation",
+      "        console.log('1')",
+      "    })",
+      "    //@debug",
+      "})",
+    ].join("\n");
+
+    const debugged = computeTransformedTextWithConfig(original, { commentPrefix: "//~ " });
+    const debuggedLines = debugged.split("\n");
+    assert.strictEqual(debuggedLines[2], "        //~ // wait for animation");
+    assert.strictEqual(debuggedLines[3], "        //~ console.log('1')");
+
+    const restored = computeTransformedTextWithConfig(
+      debugged.replace("//@debug", "//@undebug"),
+      { commentPrefix: "//~ " },
+    );
+    assert.strictEqual(restored, original.replace("//@debug", "//@undebug"));
+  });
+
+  it("undebug locates the marker after many tagged lines", () => {
+    const steps = Array.from({ length: 12 }, (_, index) => `await step${index}();`);
+    const input = [
+      "describe('x', async function(){",
+      "    it('first', async function(){",
+      ...steps.map((step) => `        //@dbg ${step}`),
+      "    })",
+      "    it('second', async function(){",
+      "        //@dbg console.log('setup')",
+      "        //@undebug",
+      "        console.log('2')",
+      "    })",
+      "})",
+    ].join("\n");
+
+    const lines = computeTransformedText(input).split("\n");
+
+    assert.deepStrictEqual(
+      lines.slice(2, 14),
+      steps.map((step) => `        ${step}`),
+    );
+    assert.strictEqual(lines[16], "        console.log('setup')");
+  });
+
+  it("strips bare comment prefix from untagged lines when legacy stripping is enabled", () => {
     const input = [
       "describe('x', async function(){",
       "    before('', async function(){",
       "        ////console.log('1')",
       "        //console.log('2')",
+      "        //@dbg console.log('3')",
       "    })",
       "    //@undebug",
       "})",
     ].join("\n");
 
-    const output = computeTransformedText(input);
+    const output = computeTransformedTextWithConfig(input, { stripLegacyCommentPrefix: true });
     const lines = output.split("\n");
 
     assert.strictEqual(lines[2], "        //console.log('1')");
     assert.strictEqual(lines[3], "        console.log('2')");
+    assert.strictEqual(lines[4], "        console.log('3')");
+  });
+
+  it("throws when comment prefix is not a tagged line comment", () => {
+    const input = ["describe('x', async function(){", "  //@debug", "})"].join("\n");
+
+    assert.throws(
+      () => computeTransformedTextWithConfig(input, { commentPrefix: "//" }),
+      /must start with '\/\/'/,
+    );
+    assert.throws(
+      () => computeTransformedTextWithConfig(input, { commentPrefix: "# " }),
+      /must start with '\/\/'/,
+    );
   });
 
   it("throws when both markers are present", () => {
@@ -108,7 +241,7 @@ describe("processor logic", () => {
     assert.strictEqual(lines[1], "  test(");
     assert.strictEqual(lines[3], "    {");
     assert.strictEqual(lines[6], "    async function () {");
-    assert.strictEqual(lines[7], "      //console.log('1');");
+    assert.strictEqual(lines[7], "      //@dbg console.log('1');");
     assert.strictEqual(lines[9], "    }");
     assert.strictEqual(lines[10], "  );");
   });
@@ -172,7 +305,7 @@ describe("processor logic", () => {
     const lines = output.split("\n");
 
     // before() hook line is eligible and should be commented.
-    assert.strictEqual(lines[6], "    //// await AuthenticationFlow.runInitialFlow();");
+    assert.strictEqual(lines[6], "    //@dbg // await AuthenticationFlow.runInitialFlow();");
     // multiline test config must remain unchanged.
     assert.strictEqual(lines[10], "    tags: [");
     assert.strictEqual(lines[13], "    ],");
@@ -205,7 +338,7 @@ describe("processor logic", () => {
     assert.strictEqual(lines[4], "    const element2 = await SomeClass.findElementByText('Hello');");
     assert.strictEqual(lines[5], "    const wowClass = new SomeClass();");
     assert.strictEqual(lines[6], "    const element3 = await wowClass.findElementByText('Hello');");
-    assert.strictEqual(lines[7], "    //const other = await anotherFinder('x');");
+    assert.strictEqual(lines[7], "    //@dbg const other = await anotherFinder('x');");
   });
 
   it("allows overriding protected function names", () => {
@@ -221,7 +354,1029 @@ describe("processor logic", () => {
     });
     const lines = output.split("\n");
 
-    assert.strictEqual(lines[1], "  //console.log('1');");
+    assert.strictEqual(lines[1], "  //@dbg console.log('1');");
+  });
+
+  describe("transform report", () => {
+    it("reports commented lines and protection source per line", () => {
+      const input = [
+        "describe('x', async function(){",
+        "  before(async function(){",
+        "    console.log('before');",
+        "  });",
+        "  test('a', async function(){",
+        "    const element = await findElementByText('Hello');",
+        "    const other = await anotherFinder('x');",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+
+      const report = computeTransformReport(input, { functionAllowlist: ["findElementByText"] });
+
+      assert.strictEqual(report.mode, "debug");
+      assert.strictEqual(report.markerLine, 7);
+      assert.strictEqual(report.processingStartLine, 1);
+      assert.deepStrictEqual(report.changedLines, [2, 6]);
+      assert.deepStrictEqual(report.protectedLines.ast, [1, 3, 4]);
+      assert.deepStrictEqual(report.protectedLines.allowlist, [5]);
+      assert.strictEqual(report.noOpReason, undefined);
+      assert.strictEqual(report.text, computeTransformedTextWithConfig(input, {
+        functionAllowlist: ["findElementByText"],
+      }));
+    });
+
+    it("explains why nothing happened", () => {
+      assert.strictEqual(computeTransformReport("const a = 1;").noOpReason, "no-marker");
+
+      const outside = ["//@debug", "describe('x', async function(){", "})"].join("\n");
+      assert.strictEqual(
+        computeTransformReport(outside).noOpReason,
+        "marker-outside-protected-callback",
+      );
+
+      const empty = ["describe('x', async function(){", "  //@debug", "})"].join("\n");
+      assert.strictEqual(computeTransformReport(empty).noOpReason, "nothing-eligible");
+
+      const ambiguous = [
+        "describe('x', async function(){",
+        "  test('a', {",
+        "    //}, async function () {",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+      const report = computeTransformReport(ambiguous);
+      assert.strictEqual(report.noOpReason, "ambiguous-protected-call");
+      assert.strictEqual(report.text, ambiguous);
+    });
+  });
+
+  describe("marker problems", () => {
+    it("flags every marker line when markers are duplicated or conflicting", () => {
+      const duplicated = [
+        "describe('x', async function(){",
+        "  //@debug",
+        "  //@debug",
+        "})",
+      ].join("\n");
+      assert.deepStrictEqual(
+        getMarkerProblems(duplicated).map((problem) => [problem.kind, problem.line]),
+        [
+          ["duplicate-marker", 1],
+          ["duplicate-marker", 2],
+        ],
+      );
+
+      const conflicting = [
+        "describe('x', async function(){",
+        "  //@undebug",
+        "  //@debug",
+        "})",
+      ].join("\n");
+      assert.deepStrictEqual(
+        getMarkerProblems(conflicting).map((problem) => [problem.kind, problem.line]),
+        [
+          ["conflicting-markers", 1],
+          ["conflicting-markers", 2],
+        ],
+      );
+    });
+
+    it("flags markers outside protected callbacks and markers with no effect", () => {
+      const outside = ["//@debug", "describe('x', async function(){", "})"].join("\n");
+      assert.deepStrictEqual(
+        getMarkerProblems(outside).map((problem) => [problem.kind, problem.line]),
+        [["marker-outside-protected-callback", 0]],
+      );
+
+      const noOp = ["describe('x', async function(){", "  //@debug", "})"].join("\n");
+      assert.deepStrictEqual(
+        getMarkerProblems(noOp).map((problem) => [problem.kind, problem.line]),
+        [["no-op-marker", 1]],
+      );
+    });
+
+    it("finds the nearest test where a moved marker has an effect", () => {
+      const input = [
+        "//@debug",
+        "describe('x', () => {",
+        "  it('a', () => {",
+        "    console.log('1');",
+        "  });",
+        "  it('b', () => {",
+        "    console.log('2');",
+        "  });",
+        "});",
+      ].join("\n");
+
+      // `describe` and the first test would leave nothing to comment before the marker.
+      const analysis = analyzeMarker(input);
+      assert.strictEqual(analysis.report?.noOpReason, "marker-outside-protected-callback");
+      assert.deepStrictEqual(
+        [analysis.moveTarget?.title, analysis.moveTarget?.bodyStartLine],
+        ["b", 5],
+      );
+
+      const moved = input
+        .replace("//@debug\n", "")
+        .replace("  it('b', () => {", "  it('b', () => {\n    //@debug");
+      assert.deepStrictEqual(getMarkerProblems(moved), []);
+      assert.strictEqual(analyzeMarker(input.replace("it('b'", "it.skip('b'")).moveTarget?.title, "b");
+      assert.strictEqual(analyzeMarker(input.replace("console.log('1');", "")).moveTarget, undefined);
+    });
+
+    it("reports nothing for an effective marker or no marker", () => {
+      const effective = [
+        "describe('x', async function(){",
+        "  test('a', async function(){",
+        "    console.log('a');",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+      assert.deepStrictEqual(getMarkerProblems(effective), []);
+      assert.deepStrictEqual(getMarkerProblems("const a = 1;"), []);
+    });
+
+    it("lists protected callbacks with multi-line block bodies", () => {
+      const input = [
+        "describe('x', async function(){",
+        "  before(setup);",
+        "  it('inline', async function(){});",
+        "  test('a', async function(){",
+        "    console.log('a');",
+        "  });",
+        "})",
+      ].join("\n");
+
+      assert.deepStrictEqual(
+        getProtectedCallbacks(input).map((callback) => [
+          callback.name,
+          callback.bodyStartLine,
+          callback.bodyEndLine,
+        ]),
+        [
+          ["describe", 0, 6],
+          ["test", 3, 5],
+        ],
+      );
+    });
+  });
+
+  it("builds title paths from enclosing titled protected calls", () => {
+    const input = [
+      "describe('login', async function(){",
+      "  before(async function(){",
+      "    console.log('setup');",
+      "  });",
+      "  describe(`with password`, async function(){",
+      "    it('succeeds', async function(){",
+      "      console.log('a');",
+      "    });",
+      "  });",
+      "})",
+    ].join("\n");
+
+    assert.deepStrictEqual(
+      getProtectedCallbacks(input).map((callback) => [callback.name, callback.titlePath]),
+      [
+        ["describe", ["login"]],
+        ["before", ["login"]],
+        ["describe", ["login", "with password"]],
+        ["it", ["login", "with password", "succeeds"]],
+      ],
+    );
+    assert.strictEqual(getProtectedCallbacks(input)[1].title, undefined);
+  });
+
+  describe("debug transform safety check", () => {
+    it("reports no issues for a cleanly reversible transform", () => {
+      const input = [
+        "describe('x', async function(){",
+        "  before(async function(){",
+        "    // wait for animation",
+        "    console.log('before');",
+        "  });",
+        "  test('a', async function(){",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+
+      const output = computeTransformedText(input);
+      assert.notStrictEqual(output, input);
+      assert.deepStrictEqual(getDebugTransformSafetyIssues(input, output), []);
+    });
+
+    it("reports lines whose line endings undebug cannot restore", () => {
+      const input = [
+        "describe('x', async function(){\r\n",
+        "  test('a', async function(){\n",
+        "    console.log('a');\r\n",
+        "    //@debug\r\n",
+        "  });\r\n",
+        "})",
+      ].join("");
+
+      const output = computeTransformedText(input);
+      const issues = getDebugTransformSafetyIssues(input, output);
+
+      assert.deepStrictEqual(
+        issues.map((issue) => issue.line),
+        [2],
+      );
+      assert.match(issues[0].reason, /undebug would restore/);
+    });
+
+    it("checks a large spec within a time bound", () => {
+      const input = createLargeSpec(650);
+      const output = computeTransformedText(input);
+      const startedAt = Date.now();
+      const issues = getDebugTransformSafetyIssues(input, output);
+      const elapsed = Date.now() - startedAt;
+
+      assert.notStrictEqual(output, input);
+      assert.deepStrictEqual(issues, []);
+      assert.ok(elapsed < 10000, `checking ${input.split("\n").length} lines took ${elapsed} ms`);
+    });
+
+    it("reports lines where the debug output introduces syntax errors", () => {
+      const input = [
+        "describe('x', async function(){",
+        "  test('a', async function(){",
+        "    await Promise.all([",
+        "      step('inline', () => 1),",
+        "    ]);",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+
+      // Statements are commented as a whole now; craft the half-commented output of old versions.
+      const output = input
+        .replace("    await Promise.all([", "    //@dbg await Promise.all([")
+        .replace("    ]);", "    //@dbg ]);");
+      const issues = getDebugTransformSafetyIssues(input, output);
+
+      assert.strictEqual(computeTransformedText(input), input);
+      assert.ok(
+        issues.some((issue) => /syntax error/.test(issue.reason)),
+        "expected syntax issues to be reported",
+      );
+    });
+  });
+
+  describe("member-expression protected functions", () => {
+    it("protects describe.only / it.skip / test.step headers by default", () => {
+      const input = [
+        "describe.only('x', async function(){",
+        "  it.skip('skipped', async function(){",
+        "    console.log('skipped');",
+        "  });",
+        "  test('a', async function(){",
+        "    await test.step('open', async () => {",
+        "      console.log('step');",
+        "    });",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+
+      const lines = computeTransformedText(input).split("\n");
+
+      assert.strictEqual(lines[0], "describe.only('x', async function(){");
+      assert.strictEqual(lines[1], "  it.skip('skipped', async function(){");
+      assert.strictEqual(lines[2], "    //@dbg console.log('skipped');");
+      assert.strictEqual(lines[5], "    await test.step('open', async () => {");
+      assert.strictEqual(lines[6], "      //@dbg console.log('step');");
+      assert.strictEqual(lines[7], "    });");
+    });
+
+    it("supports dotted names and leading wildcards", () => {
+      const input = [
+        "suite('x', async function(){",
+        "  await allure.step('open', async () => {",
+        "    console.log('allure');",
+        "  });",
+        "  await reporter.log('not protected', async () => {",
+        "    console.log('log');",
+        "  });",
+        "  //@debug",
+        "})",
+      ].join("\n");
+
+      const lines = computeTransformedTextWithConfig(input, {
+        protectedFunctions: ["suite", "*.step"],
+      }).split("\n");
+
+      assert.strictEqual(lines[1], "  await allure.step('open', async () => {");
+      assert.strictEqual(lines[2], "    //@dbg console.log('allure');");
+      assert.strictEqual(lines[4], "  //@dbg await reporter.log('not protected', async () => {");
+    });
+
+    it("applies patterns to the regex fallback for unparsed call lines", () => {
+      const input = [
+        "describe('x', async function(){",
+        "  //before.all(async function(){",
+        "  //}",
+        "  test('a', async function(){",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+
+      const report = computeTransformReport(input, {
+        protectedFunctions: ["describe", "test", "before.*"],
+      });
+
+      assert.deepStrictEqual(report.protectedLines.regex, [1]);
+    });
+
+    it("rejects malformed protected function patterns", () => {
+      const input = ["describe('x', async function(){", "  //@debug", "})"].join("\n");
+
+      assert.throws(
+        () => computeTransformedTextWithConfig(input, { protectedFunctions: ["describe("] }),
+        /must be a name or dotted pattern/,
+      );
+    });
+  });
+
+  describe("statement-granular commenting", () => {
+    it("comments or keeps every line of a multi-line statement together", () => {
+      const input = [
+        "describe('x', () => {",
+        "  it('a', async () => {",
+        "    await $('x')",
+        "      .click();",
+        "    await $('y').waitFor(",
+        "      step('y', { timeout: 1 }),",
+        "    );",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const output = computeTransformedText(input);
+      const lines = output.split("\n");
+
+      assert.strictEqual(lines[2], "    //@dbg await $('x')");
+      assert.strictEqual(lines[3], "      //@dbg .click();");
+      assert.deepStrictEqual(lines.slice(4, 7), input.split("\n").slice(4, 7));
+      assert.deepStrictEqual(getDebugTransformSafetyIssues(input, output), []);
+    });
+
+    it("keeps statements that contain protected calls", () => {
+      const input = [
+        "describe('x', () => {",
+        "  console.log('setup');",
+        "  if (flag) {",
+        "    it('a', () => {",
+        "      //@debug",
+        "    });",
+        "  }",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+
+      assert.deepStrictEqual(report.changedLines, [1]);
+      assert.deepStrictEqual(report.protectedLines.ast, [2, 3]);
+    });
+
+    it("transforms a large spec in time linear in its size", () => {
+      const input = createLargeSpec(650);
+      const startedAt = Date.now();
+      const output = computeTransformedText(input);
+      const elapsed = Date.now() - startedAt;
+
+      assert.strictEqual(output.split("\n")[5], "    //@dbg if (items.length > 0) {");
+      assert.ok(elapsed < 5000, `transforming ${input.split("\n").length} lines took ${elapsed} ms`);
+    });
+  });
+
+  describe("referenced declarations", () => {
+    const input = [
+      "describe('x', () => {",
+      "  it('a', async () => {",
+      "    const name = makeName();",
+      "    const other = makeOther();",
+      "    const user = await createUser(name);",
+      "    await page.click('#login');",
+      "    //@debug",
+      "    await page.fill('#name', user.name);",
+      "  });",
+      "});",
+    ].join("\n");
+
+    it("comments declarations by default", () => {
+      assert.deepStrictEqual(computeTransformReport(input).changedLines, [2, 3, 4, 5]);
+    });
+
+    it("keeps declarations used after the marker and their dependencies", () => {
+      const report = computeTransformReport(input, { keepReferencedDeclarations: true });
+
+      assert.deepStrictEqual(report.changedLines, [3, 5]);
+      assert.deepStrictEqual(report.protectedLines.reference, [2, 4]);
+      assert.deepStrictEqual(
+        getDebugTransformSafetyIssues(input, report.text, { keepReferencedDeclarations: true }),
+        [],
+      );
+    });
+  });
+
+  describe("protection rules", () => {
+    it("keeps statements selected by call, text, requires and inside rules", () => {
+      const input = [
+        "describe('x', function () {",
+        "  it('a', async function () {",
+        "    this.timeout(5000);",
+        "    await browser.setWindowSize(1280, 720);",
+        "    const helpers = require('./helpers');",
+        "    await driver.pause(500);",
+        "    await withRetry(async () => {",
+        "      await page.reload();",
+        "    });",
+        "    await page.click('#login');",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input, {
+        protectionRules: [
+          { call: "this.timeout" },
+          { call: "*.setWindowSize" },
+          { requires: true },
+          { text: "^await driver\\.pause" },
+          { inside: "withRetry" },
+        ],
+      });
+
+      assert.deepStrictEqual(report.changedLines, [9]);
+      assert.deepStrictEqual(report.protectedLines.rule, [2, 3, 4, 5, 6, 7, 8]);
+      assert.deepStrictEqual(
+        report.ruleMatches.filter((match) => match.line <= 5).map((match) => match.rule),
+        ["call 'this.timeout'", "call '*.setWindowSize'", "requires", "text /^await driver\\.pause/"],
+      );
+      assert.strictEqual(report.ruleMatches[6].rule, "inside 'withRetry'");
+    });
+
+    it("reports rule matches and invalid rules as marker problems", () => {
+      const input = [
+        "describe('x', function () {",
+        "  it('a', async function () {",
+        "    this.timeout(5000);",
+        "    console.log('1');",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      assert.deepStrictEqual(getMarkerProblems(input, { protectionRules: [{ call: "this.timeout" }] }), [
+        { kind: "rule-match", line: 2, message: "Kept by protection rule call 'this.timeout'." },
+      ]);
+      assert.deepStrictEqual(
+        getMarkerProblems(input, { protectionRules: [{ text: "(" }] }).map((problem) => [
+          problem.kind,
+          problem.line,
+        ]),
+        [["invalid-configuration", 4]],
+      );
+    });
+
+    it("rejects invalid rules", () => {
+      assert.throws(
+        () => computeTransformReport("//@debug", { protectionRules: [{ text: "(" }] }),
+        /Setting 'protectionRules' text pattern/,
+      );
+      assert.throws(
+        () =>
+          computeTransformReport("//@debug", {
+            protectionRules: [{ call: "a", text: "b" } as unknown as ProtectionRule],
+          }),
+        /exactly one of/,
+      );
+    });
+  });
+
+  describe("marker options", () => {
+    const withMarker = (marker: string) =>
+      [
+        "describe('x', () => {",
+        "  before(() => {",
+        "    login();",
+        "  });",
+        "  it('a', () => {",
+        "    openHome();",
+        "  });",
+        "  it('b', () => {",
+        "    openCart();",
+        "    //@label pay",
+        "    fillCard();",
+        `    ${marker}`,
+        "  });",
+        "});",
+      ].join("\n");
+
+    it("comments everything from the outermost body without options", () => {
+      assert.deepStrictEqual(computeTransformReport(withMarker("//@debug")).changedLines, [2, 5, 8, 9, 10]);
+    });
+
+    it("keeps hooks and sibling tests running with keep-hooks and skip-siblings", () => {
+      const input = withMarker("//@debug(keep-hooks, skip-siblings)");
+      const report = computeTransformReport(input);
+
+      assert.deepStrictEqual(report.changedLines, [8, 9, 10]);
+      assert.deepStrictEqual(report.protectedLines.marker, [2, 5]);
+      assert.deepStrictEqual(getDebugTransformSafetyIssues(input, report.text), []);
+    });
+
+    it("still comments steps inside the marker's own test with skip-siblings", () => {
+      const input = [
+        "describe('x', () => {",
+        "  it('a', () => {",
+        "    openHome();",
+        "  });",
+        "  it('b', async () => {",
+        "    await step('login', async () => {",
+        "      await login();",
+        "    });",
+        "    openCart();",
+        "    //@debug(skip-siblings)",
+        "  });",
+        "});",
+      ].join("\n");
+      const report = computeTransformReport(input);
+
+      assert.deepStrictEqual(report.changedLines, [6, 8]);
+      assert.deepStrictEqual(report.protectedLines.marker, [2]);
+    });
+
+    it("limits processing to the nearest body with scope=test and to a label with from=", () => {
+      const scoped = computeTransformReport(withMarker("//@debug(scope=test)"));
+      const fromLabel = computeTransformReport(withMarker("//@debug(from=pay)"));
+
+      assert.strictEqual(scoped.processingStartLine, 8);
+      assert.deepStrictEqual(scoped.changedLines, [8, 9, 10]);
+      assert.strictEqual(fromLabel.processingStartLine, 10);
+      assert.deepStrictEqual(fromLabel.changedLines, [10]);
+    });
+
+    it("reports unknown options and unmatched labels", () => {
+      assert.throws(
+        () => computeTransformReport(withMarker("//@debug(keep-all)")),
+        /Unknown \/\/@debug option 'keep-all'/,
+      );
+      assert.deepStrictEqual(
+        getMarkerProblems(withMarker("//@debug(from=nowhere)")).map((problem) => problem.kind),
+        ["invalid-marker-option"],
+      );
+    });
+  });
+
+  describe("test title lookup", () => {
+    it("returns the title path of the test around a line, ignoring steps", () => {
+      const input = [
+        "describe('login', () => {",
+        "  it('succeeds', async () => {",
+        "    await step('types password', async () => {",
+        "      await type();",
+        "    });",
+        "  });",
+        "});",
+      ].join("\n");
+
+      assert.deepStrictEqual(getTestTitlePathAt(input, 3), ["login", "succeeds"]);
+      assert.deepStrictEqual(getTestTitlePathAt(input, 0), ["login"]);
+      assert.strictEqual(getTestTitlePathAt(input, 7), undefined);
+    });
+  });
+
+  describe("keep annotations", () => {
+    it("keeps lines marked with //@keep and //@keep-start / //@keep-end regions", () => {
+      const input = [
+        "describe('x', () => {",
+        "  it('a', async () => {",
+        "    await driver.pause(500); //@keep",
+        "    console.log('a');",
+        "    //@keep",
+        "    await openDeepLink(",
+        "      'app://settings',",
+        "    );",
+        "    //@keep-start",
+        "    await login();",
+        "    await acceptCookies();",
+        "    //@keep-end",
+        "    console.log(`",
+        "//@keep",
+        "`);",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+
+      assert.deepStrictEqual(report.changedLines, [3, 12, 13, 14]);
+      assert.deepStrictEqual(report.protectedLines.keep, [2, 4, 5, 6, 7, 8, 9, 10, 11]);
+      assert.deepStrictEqual(getDebugTransformSafetyIssues(input, report.text), []);
+    });
+  });
+
+  describe("multi-line literals", () => {
+    it("comments literal content together with the literal's first line", () => {
+      const input = [
+        "describe('x', () => {",
+        "  it('a', async () => {",
+        "    await page.evaluate(`",
+        "      it('inner', () => {});",
+        "",
+        "      window.ready = true;",
+        "    `);",
+        "  });",
+        "  it('b', async () => {",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+
+      assert.deepStrictEqual(report.changedLines, [2, 3, 5, 6]);
+      assert.deepStrictEqual(report.protectedLines.regex, []);
+      assert.deepStrictEqual(getDebugTransformSafetyIssues(input, report.text), []);
+    });
+
+    it("keeps literal content when the literal starts on a protected line", () => {
+      const input = [
+        "describe('x', () => {",
+        "  it('a', async () => { await page.evaluate(`",
+        "      window.ready = true;",
+        "    `);",
+        "    console.log('a');",
+        "  });",
+        "  it('b', async () => {",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+      const lines = report.text.split("\n");
+
+      assert.deepStrictEqual(report.changedLines, [4]);
+      assert.strictEqual(lines[2], "      window.ready = true;");
+      assert.strictEqual(lines[3], "    `);");
+    });
+
+    it("does not uncomment tagged text inside literals kept by debug", () => {
+      const input = [
+        "describe('x', () => {",
+        "  it('a', async () => { await run(`",
+        "    //@dbg keep me",
+        "  `);",
+        "    //@dbg console.log('a');",
+        "  });",
+        "  it('b', async () => {",
+        "    //@undebug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const lines = computeTransformedText(input).split("\n");
+
+      assert.strictEqual(lines[2], "    //@dbg keep me");
+      assert.strictEqual(lines[4], "    console.log('a');");
+    });
+  });
+
+  describe("script file kinds", () => {
+    it("picks the parse kind from the file extension or language id", () => {
+      assert.strictEqual(getScriptFileKind("/specs/button.spec.tsx", "typescriptreact"), "tsx");
+      assert.strictEqual(getScriptFileKind("/specs/login.spec.mjs", "javascript"), "mjs");
+      assert.strictEqual(getScriptFileKind("/specs/login.spec.cjs"), "cjs");
+      assert.strictEqual(getScriptFileKind("Untitled-1", "javascriptreact"), "jsx");
+      assert.strictEqual(getScriptFileKind("/specs/notes.md"), "ts");
+    });
+
+    it("parses JSX in component tests", () => {
+      const input = [
+        "describe('Button', () => {",
+        "  it('renders', () => {",
+        "    render(",
+        "      <Button label='a' onClick={() => {}}>",
+        "        <span>text</span>",
+        "      </Button>,",
+        "    );",
+        "  });",
+        "  it('clicks', () => {",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      for (const fileKind of ["tsx", "jsx"] as const) {
+        const report = computeTransformReport(input, { fileKind });
+
+        assert.deepStrictEqual(report.changedLines, [2, 3, 4, 5, 6]);
+        assert.deepStrictEqual(getDebugTransformSafetyIssues(input, report.text, { fileKind }), []);
+      }
+    });
+  });
+
+  describe("decorator-based suites", () => {
+    const input = [
+      "@suite class LoginTests {",
+      "  private page = new LoginPage();",
+      "  static before() {",
+      "    console.log('static setup');",
+      "  }",
+      "  before() {",
+      "    console.log('setup');",
+      "  }",
+      "  @test async opens() {",
+      "    console.log('open');",
+      "  }",
+      "  @test('logs in') @timeout(5000)",
+      "  async login() {",
+      "    console.log('login');",
+      "    //@debug",
+      "  }",
+      "}",
+    ].join("\n");
+
+    it("comments hook and prior test method bodies inside a suite class", () => {
+      const report = computeTransformReport(input);
+      const lines = report.text.split("\n");
+
+      assert.strictEqual(report.processingStartLine, 1);
+      assert.deepStrictEqual(report.changedLines, [3, 6, 9, 13]);
+      assert.strictEqual(lines[1], "  private page = new LoginPage();");
+      assert.strictEqual(lines[2], "  static before() {");
+      assert.strictEqual(lines[3], "    //@dbg console.log('static setup');");
+      assert.strictEqual(lines[8], "  @test async opens() {");
+      assert.strictEqual(lines[11], "  @test('logs in') @timeout(5000)");
+    });
+
+    it("lists suite classes and test methods as protected callbacks", () => {
+      assert.deepStrictEqual(
+        getProtectedCallbacks(input).map((callback) => [
+          callback.name,
+          callback.startLine,
+          callback.titlePath,
+        ]),
+        [
+          ["suite", 0, ["LoginTests"]],
+          ["before", 2, ["LoginTests"]],
+          ["before", 5, ["LoginTests"]],
+          ["test", 8, ["LoginTests", "opens"]],
+          ["test", 11, ["LoginTests", "logs in"]],
+        ],
+      );
+    });
+
+    it("ignores classes without a protected decorator", () => {
+      const report = computeTransformReport(input, { protectedDecorators: ["describeClass"] });
+
+      assert.deepStrictEqual(report.changedLines, []);
+      assert.strictEqual(report.text, input);
+    });
+  });
+
+  describe("data-driven and loop-generated tests", () => {
+    it("keeps forEach loops that generate tests and comments generated bodies", () => {
+      const input = [
+        "describe('x', function(){",
+        "  [1, 2].forEach((c) => {",
+        "    const title = `case ${c}`;",
+        "    it(title, async () => {",
+        "      console.log(c);",
+        "    });",
+        "  });",
+        "  it('b', async () => {",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+      const lines = report.text.split("\n");
+
+      assert.deepStrictEqual(report.changedLines, [4]);
+      assert.strictEqual(lines[1], "  [1, 2].forEach((c) => {");
+      assert.strictEqual(lines[2], "    const title = `case ${c}`;");
+      assert.strictEqual(lines[4], "      //@dbg console.log(c);");
+      assert.strictEqual(lines[6], "  });");
+    });
+
+    it("keeps for-of loops that generate tests", () => {
+      const input = [
+        "describe('x', function(){",
+        "  for (const c of cases) {",
+        "    it(c.name, async () => {",
+        "      console.log(c);",
+        "    });",
+        "  }",
+        "  it('b', async () => {",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+
+      assert.deepStrictEqual(report.changedLines, [3]);
+      assert.deepStrictEqual(report.protectedLines.ast, [1, 2, 4, 5, 6]);
+    });
+
+    it("protects it.each / describe.each tables and headers", () => {
+      const input = [
+        "describe.each([",
+        "  [1, 2],",
+        "  [3, 4],",
+        "])('adds %i + %i', (a, b) => {",
+        "  beforeEach(() => {",
+        "    console.log('setup');",
+        "  });",
+        "  it.each`",
+        "    value",
+        "    ${a}",
+        "  `('checks $value', ({ value }) => {",
+        "    console.log(value);",
+        "    //@debug",
+        "  });",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+
+      assert.strictEqual(report.processingStartLine, 4);
+      assert.deepStrictEqual(report.changedLines, [5, 11]);
+      assert.deepStrictEqual(report.protectedLines.ast, [4, 6, 7, 8, 9, 10]);
+    });
+
+    it("builds title paths through each tables", () => {
+      const input = [
+        "describe.each([[1]])('suite %i', (n) => {",
+        "  it('works', () => {",
+        "    console.log(n);",
+        "  });",
+        "});",
+      ].join("\n");
+
+      assert.deepStrictEqual(
+        getProtectedCallbacks(input).map((callback) => callback.titlePath),
+        [["suite %i"], ["suite %i", "works"]],
+      );
+    });
+  });
+
+  describe("concise and referenced callbacks", () => {
+    it("scopes a marker inside a locally declared function passed by name", () => {
+      const input = [
+        "async function loginSteps() {",
+        "  console.log('open');",
+        "  //@debug",
+        "  console.log('submit');",
+        "}",
+        "describe('x', function(){",
+        "  it('login', loginSteps);",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+      const lines = report.text.split("\n");
+
+      assert.strictEqual(report.processingStartLine, 1);
+      assert.strictEqual(lines[0], "async function loginSteps() {");
+      assert.strictEqual(lines[1], "  //@dbg console.log('open');");
+      assert.strictEqual(lines[3], "  console.log('submit');");
+    });
+
+    it("keeps the declaration of a referenced arrow function as its header", () => {
+      const input = [
+        "describe('x', function(){",
+        "  before(setup);",
+        "  const steps = async () => {",
+        "    console.log('a');",
+        "    //@debug",
+        "  };",
+        "  it('a', steps);",
+        "});",
+      ].join("\n");
+
+      const lines = computeTransformedText(input).split("\n");
+
+      assert.strictEqual(lines[1], "  before(setup);");
+      assert.strictEqual(lines[2], "  const steps = async () => {");
+      assert.strictEqual(lines[3], "    //@dbg console.log('a');");
+    });
+
+    it("accepts a marker inside a multi-line concise arrow body", () => {
+      const input = [
+        "describe('x', function(){",
+        "  before(async () => {",
+        "    console.log('setup');",
+        "  });",
+        "  it('a', () =>",
+        "    //@debug",
+        "    doThing());",
+        "});",
+      ].join("\n");
+
+      const report = computeTransformReport(input);
+
+      assert.strictEqual(report.noOpReason, undefined);
+      assert.deepStrictEqual(report.changedLines, [2]);
+      assert.deepStrictEqual(report.protectedLines.ast, [1, 3, 4]);
+    });
+
+    it("lists referenced function bodies as protected callbacks", () => {
+      const input = [
+        "function shared() {",
+        "  console.log('shared');",
+        "}",
+        "describe('x', function(){",
+        "  it('a', shared);",
+        "  it('b', () => shared());",
+        "});",
+      ].join("\n");
+
+      assert.deepStrictEqual(
+        getProtectedCallbacks(input).map((callback) => [
+          callback.name,
+          callback.startLine,
+          callback.bodyStartLine,
+          callback.bodyEndLine,
+        ]),
+        [
+          ["describe", 3, 3, 6],
+          ["it", 4, 0, 2],
+        ],
+      );
+    });
+  });
+
+  describe("import aliases of protected functions", () => {
+    it("protects named import aliases", () => {
+      const input = [
+        "import { it as scenario } from 'mocha';",
+        "describe('x', async function(){",
+        "  scenario('a', async function(){",
+        "    console.log('a');",
+        "  });",
+        "  it('b', async function(){",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+
+      const lines = computeTransformedText(input).split("\n");
+
+      assert.strictEqual(lines[2], "  scenario('a', async function(){");
+      assert.strictEqual(lines[3], "    //@dbg console.log('a');");
+      assert.strictEqual(lines[4], "  });");
+    });
+
+    it("protects require destructuring aliases and namespace imports", () => {
+      const input = [
+        "const { it: scenario } = require('mocha');",
+        "import * as m from 'mocha';",
+        "m.describe('x', async function(){",
+        "  scenario('a', async function(){",
+        "    console.log('a');",
+        "  });",
+        "  m.it('b', async function(){",
+        "    //@debug",
+        "  });",
+        "})",
+      ].join("\n");
+
+      const lines = computeTransformedText(input).split("\n");
+
+      assert.strictEqual(lines[2], "m.describe('x', async function(){");
+      assert.strictEqual(lines[3], "  scenario('a', async function(){");
+      assert.strictEqual(lines[4], "    //@dbg console.log('a');");
+      assert.strictEqual(lines[6], "  m.it('b', async function(){");
+    });
+
+    it("does not protect aliases of unprotected imports", () => {
+      const input = [
+        "import { log as it2 } from './logger';",
+        "describe('x', async function(){",
+        "  it2('a', async function(){",
+        "    console.log('a');",
+        "  });",
+        "  //@debug",
+        "})",
+      ].join("\n");
+
+      const lines = computeTransformedText(input).split("\n");
+
+      assert.strictEqual(lines[2], "  //@dbg it2('a', async function(){");
+    });
   });
 
   describe("all protected functions work when marker is in test()", () => {
@@ -241,8 +1396,8 @@ describe("processor logic", () => {
       const output = computeTransformedText(input);
       const lines = output.split("\n");
 
-      assert.strictEqual(lines[2], "    //console.log('before setup');");
-      assert.strictEqual(lines[5], "    //console.log('test code');");
+      assert.strictEqual(lines[2], "    //@dbg console.log('before setup');");
+      assert.strictEqual(lines[5], "    //@dbg console.log('test code');");
     });
 
     it("comments code in beforeEach() blocks when marker is in test()", () => {
@@ -261,8 +1416,8 @@ describe("processor logic", () => {
       const output = computeTransformedText(input);
       const lines = output.split("\n");
 
-      assert.strictEqual(lines[2], "    //console.log('beforeEach setup');");
-      assert.strictEqual(lines[5], "    //console.log('test code');");
+      assert.strictEqual(lines[2], "    //@dbg console.log('beforeEach setup');");
+      assert.strictEqual(lines[5], "    //@dbg console.log('test code');");
     });
 
     it("does NOT comment code in after() blocks when marker is in test() (after comes after marker)", () => {
@@ -284,7 +1439,7 @@ describe("processor logic", () => {
       // after() comes after marker, so it should NOT be commented
       assert.strictEqual(lines[6], "    console.log('after cleanup');");
       // test code before marker should be commented
-      assert.strictEqual(lines[2], "    //console.log('test code');");
+      assert.strictEqual(lines[2], "    //@dbg console.log('test code');");
     });
 
     it("does NOT comment code in afterEach() blocks when marker is in test() (afterEach comes after marker)", () => {
@@ -306,7 +1461,7 @@ describe("processor logic", () => {
       // afterEach() comes after marker, so it should NOT be commented
       assert.strictEqual(lines[6], "    console.log('afterEach cleanup');");
       // test code before marker should be commented
-      assert.strictEqual(lines[2], "    //console.log('test code');");
+      assert.strictEqual(lines[2], "    //@dbg console.log('test code');");
     });
 
     it("comments code in step() blocks when marker is in test()", () => {
@@ -325,8 +1480,8 @@ describe("processor logic", () => {
       const output = computeTransformedText(input);
       const lines = output.split("\n");
 
-      assert.strictEqual(lines[3], "      //console.log('step code');");
-      assert.strictEqual(lines[5], "    //console.log('test code');");
+      assert.strictEqual(lines[3], "      //@dbg console.log('step code');");
+      assert.strictEqual(lines[5], "    //@dbg console.log('test code');");
     });
 
     it("comments code in before/beforeEach hooks but NOT after/afterEach when marker is in test()", () => {
@@ -355,10 +1510,10 @@ describe("processor logic", () => {
       const lines = output.split("\n");
 
       // before/beforeEach come before marker, so they should be commented
-      assert.strictEqual(lines[2], "    //console.log('before');");
-      assert.strictEqual(lines[5], "    //console.log('beforeEach');");
+      assert.strictEqual(lines[2], "    //@dbg console.log('before');");
+      assert.strictEqual(lines[5], "    //@dbg console.log('beforeEach');");
       // test code before marker should be commented
-      assert.strictEqual(lines[8], "    //console.log('test');");
+      assert.strictEqual(lines[8], "    //@dbg console.log('test');");
       // after/afterEach come after marker, so they should NOT be commented
       // Line 11 is the afterEach call signature, line 12 is the body content
       assert.strictEqual(lines[12], "    console.log('afterEach');");
@@ -382,8 +1537,8 @@ describe("processor logic", () => {
       const output = computeTransformedText(input);
       const lines = output.split("\n");
 
-      assert.strictEqual(lines[2], "    //console.log('it code');");
-      assert.strictEqual(lines[5], "    //console.log('test code');");
+      assert.strictEqual(lines[2], "    //@dbg console.log('it code');");
+      assert.strictEqual(lines[5], "    //@dbg console.log('test code');");
     });
 
     it("comments code in nested step() blocks when marker is in test()", () => {
@@ -404,8 +1559,8 @@ describe("processor logic", () => {
       const output = computeTransformedText(input);
       const lines = output.split("\n");
 
-      assert.strictEqual(lines[4], "        //console.log('nested step code');");
-      assert.strictEqual(lines[7], "    //console.log('test code');");
+      assert.strictEqual(lines[4], "        //@dbg console.log('nested step code');");
+      assert.strictEqual(lines[7], "    //@dbg console.log('test code');");
     });
   });
 });
@@ -0,0 +1,86 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "mocha";
+import {
+  clearPresetCache,
+  detectPresets,
+  findNearestPackageJson,
+  getPresetProtectedFunctions,
+} from "../../src/presets";
+
+describe("framework presets", () => {
+  let rootDir: string;
+
+  before(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "mocha-debug-helper-presets-"));
+    fs.writeFileSync(
+      path.join(rootDir, "package.json"),
+      JSON.stringify({ devDependencies: { mocha: "^11.0.0" } }),
+    );
+    fs.mkdirSync(path.join(rootDir, "packages", "web", "tests"), { recursive: true });
+    fs.writeFileSync(
+      path.join(rootDir, "packages", "web", "package.json"),
+      JSON.stringify({ devDependencies: { "@playwright/test": "^1.40.0", vitest: "^1.0.0" } }),
+    );
+    clearPresetCache();
+  });
+
+  after(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("detects presets from dependency names", () => {
+    assert.deepStrictEqual(detectPresets(["jest", "lodash", "@wdio/mocha-framework"]), [
+      "mocha",
+      "jest",
+    ]);
+    assert.deepStrictEqual(detectPresets(["lodash"]), []);
+  });
+
+  it("finds the nearest package.json up to the root directory", () => {
+    const nestedFile = path.join(rootDir, "packages", "web", "tests", "login.spec.ts");
+    assert.strictEqual(
+      findNearestPackageJson(nestedFile, rootDir),
+      path.join(rootDir, "packages", "web", "package.json"),
+    );
+    assert.strictEqual(
+      findNearestPackageJson(path.join(rootDir, "a.spec.ts"), rootDir),
+      path.join(rootDir, "package.json"),
+    );
+  });
+
+  it("auto-detects protected functions from the nearest package.json", () => {
+    const webFunctions = getPresetProtectedFunctions(
+      "auto",
+      path.join(rootDir, "packages", "web", "tests", "login.spec.ts"),
+      rootDir,
+    );
+    assert.ok(webFunctions.includes("test.describe.*"));
+    assert.ok(webFunctions.includes("beforeAll"));
+    assert.ok(!webFunctions.includes("context"));
+
+    const rootFunctions = getPresetProtectedFunctions(
+      "auto",
+      path.join(rootDir, "a.spec.ts"),
+      rootDir,
+    );
+    assert.ok(rootFunctions.includes("context"));
+    assert.ok(rootFunctions.includes("specify"));
+  });
+
+  it("uses an explicit preset regardless of dependencies", () => {
+    const functions = getPresetProtectedFunctions("jasmine", path.join(rootDir, "a.spec.ts"));
+    assert.ok(functions.includes("fdescribe"));
+    assert.ok(functions.includes("xit"));
+    assert.deepStrictEqual(getPresetProtectedFunctions("none", path.join(rootDir, "a.ts")), []);
+  });
+
+  it("throws for unknown presets", () => {
+    assert.throws(
+      () => getPresetProtectedFunctions("karma", path.join(rootDir, "a.ts")),
+      /must be one of/,
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import * as assert from "node:assert";
+import { describe, it } from "mocha";
+import {
+  getConfiguredDebounceMs,
+  getConfiguredRunPolicy,
+  ScriptRunCoordinator,
+  ScriptRunPolicy,
+  ScriptRunState,
+} from "../../src/runCoordinator";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// A task that records its start and finishes on release or, like a killed script, on abort.
+function createControlledTask(log: string[], name: string) {
+  let release: () => void = () => undefined;
+  const task = (signal: AbortSignal) =>
+    new Promise<void>((resolve) => {
+      log.push(`start ${name}`);
+      release = () => {
+        log.push(`end ${name}`);
+        resolve();
+      };
+      signal.addEventListener("abort", () => {
+        log.push(`abort ${name}`);
+        resolve();
+      });
+    });
+  return { task, release: () => release() };
+}
+
+describe("script run coordinator", () => {
+  it("queues runs requested while one is active and keeps one entry per file", async () => {
+    const log: string[] = [];
+    const states: ScriptRunState[] = [];
+    const coordinator = new ScriptRunCoordinator(() => "queue", (state) => states.push(state));
+    const first = createControlledTask(log, "a1");
+    const second = createControlledTask(log, "b");
+    const third = createControlledTask(log, "b2");
+
+    const firstRun = coordinator.schedule("a.spec.ts", first.task);
+    await delay(0);
+    const secondRun = coordinator.schedule("b.spec.ts", second.task);
+    const thirdRun = coordinator.schedule("b.spec.ts", third.task);
+    assert.deepStrictEqual(coordinator.getState(), { active: "a.spec.ts", queued: ["b.spec.ts"] });
+    assert.strictEqual(await secondRun, "superseded");
+
+    first.release();
+    assert.strictEqual(await firstRun, "completed");
+    await delay(0);
+    third.release();
+    assert.strictEqual(await thirdRun, "completed");
+    await delay(0);
+
+    assert.deepStrictEqual(log, ["start a1", "end a1", "start b2", "end b2"]);
+    assert.deepStrictEqual(states[states.length - 1], { active: undefined, queued: [] });
+  });
+
+  it("cancels the active run and starts the newest one with cancel-previous", async () => {
+    const log: string[] = [];
+    const coordinator = new ScriptRunCoordinator(() => "cancel-previous");
+    const first = createControlledTask(log, "1");
+    const second = createControlledTask(log, "2");
+    const third = createControlledTask(log, "3");
+
+    const firstRun = coordinator.schedule("a.spec.ts", first.task);
+    await delay(0);
+    const secondRun = coordinator.schedule("a.spec.ts", second.task);
+    const thirdRun = coordinator.schedule("a.spec.ts", third.task);
+
+    assert.strictEqual(await firstRun, "completed");
+    assert.strictEqual(await secondRun, "superseded");
+    await delay(0);
+    third.release();
+    assert.strictEqual(await thirdRun, "completed");
+    assert.deepStrictEqual(log, ["start 1", "abort 1", "start 3", "end 3"]);
+  });
+
+  it("ignores runs requested while one is active with ignore", async () => {
+    const log: string[] = [];
+    const coordinator = new ScriptRunCoordinator(() => "ignore");
+    const first = createControlledTask(log, "1");
+    const second = createControlledTask(log, "2");
+
+    const firstRun = coordinator.schedule("a.spec.ts", first.task);
+    await delay(0);
+    assert.strictEqual(await coordinator.schedule("a.spec.ts", second.task), "ignored");
+    first.release();
+    assert.strictEqual(await firstRun, "completed");
+    assert.deepStrictEqual(log, ["start 1", "end 1"]);
+  });
+
+  it("debounces quick successive requests into the last one", async () => {
+    const started: string[] = [];
+    const coordinator = new ScriptRunCoordinator(() => "queue");
+    const schedule = (name: string) =>
+      coordinator.schedule(
+        "a.spec.ts",
+        async () => {
+          started.push(name);
+        },
+        50,
+      );
+
+    const firstRun = schedule("save 1");
+    await delay(10);
+    const secondRun = schedule("save 2");
+    assert.strictEqual(await firstRun, "superseded");
+    assert.strictEqual(await secondRun, "completed");
+    assert.deepStrictEqual(started, ["save 2"]);
+  });
+
+  it("debounces each file separately", async () => {
+    const started: string[] = [];
+    const coordinator = new ScriptRunCoordinator(() => "queue");
+    const schedule = (label: string) =>
+      coordinator.schedule(
+        label,
+        async () => {
+          started.push(label);
+        },
+        50,
+      );
+
+    const outcomes = await Promise.all([schedule("a.spec.ts"), schedule("b.spec.ts")]);
+    assert.deepStrictEqual(outcomes, ["completed", "completed"]);
+    assert.deepStrictEqual(started, ["a.spec.ts", "b.spec.ts"]);
+  });
+
+  it("cancelAll aborts the active run and drops waiting ones", async () => {
+    const log: string[] = [];
+    const coordinator = new ScriptRunCoordinator(() => "queue");
+    const first = createControlledTask(log, "1");
+    const second = createControlledTask(log, "2");
+
+    const firstRun = coordinator.schedule("a.spec.ts", first.task);
+    await delay(0);
+    const secondRun = coordinator.schedule("b.spec.ts", second.task);
+    coordinator.cancelAll();
+
+    assert.strictEqual(await secondRun, "superseded");
+    assert.strictEqual(await firstRun, "completed");
+    await delay(0);
+    assert.deepStrictEqual(log, ["start 1", "abort 1"]);
+    assert.deepStrictEqual(coordinator.getState(), { active: undefined, queued: [] });
+  });
+
+  it("rejects the request whose task fails and continues with the queue", async () => {
+    const started: string[] = [];
+    const coordinator = new ScriptRunCoordinator(() => "queue");
+    const failing = coordinator.schedule("a.spec.ts", async () => {
+      throw new Error("boom");
+    });
+    const next = coordinator.schedule("b.spec.ts", async () => {
+      started.push("b");
+    });
+
+    await assert.rejects(failing, /boom/);
+    assert.strictEqual(await next, "completed");
+    assert.deepStrictEqual(started, ["b"]);
+  });
+
+  it("rejects a debounced request when the run policy setting is invalid", async () => {
+    const log: string[] = [];
+    const coordinator = new ScriptRunCoordinator(() => getConfiguredRunPolicy("parallel"));
+    const first = createControlledTask(log, "1");
+    const second = createControlledTask(log, "2");
+
+    const firstRun = coordinator.schedule("a.spec.ts", first.task);
+    await delay(0);
+    await assert.rejects(coordinator.schedule("a.spec.ts", second.task, 10), /scriptRunner.runPolicy/);
+    first.release();
+    assert.strictEqual(await firstRun, "completed");
+    assert.deepStrictEqual(log, ["start 1", "end 1"]);
+  });
+
+  it("validates run policy and debounce settings", () => {
+    const policies: ScriptRunPolicy[] = ["queue", "cancel-previous", "ignore"];
+    for (const policy of policies) {
+      assert.strictEqual(getConfiguredRunPolicy(policy), policy);
+    }
+    assert.strictEqual(getConfiguredRunPolicy(undefined), "queue");
+    assert.throws(() => getConfiguredRunPolicy("parallel"), /must be one of: queue, cancel-previous, ignore/);
+    assert.strictEqual(getConfiguredDebounceMs(250), 250);
+    assert.throws(() => getConfiguredDebounceMs(-5), /non-negative number/);
+  });
+});
@@ -2,9 +2,18 @@ import * as assert from "node:assert";
 import { describe, it } from "mocha";
 import {
   buildScriptCommand,
+  findScriptProfile,
+  formatScriptEnvForLog,
+  getConfiguredMaskPatterns,
   getConfiguredScriptCommand,
+  getConfiguredScriptEnv,
+  getConfiguredScriptProfiles,
+  getConfiguredScriptTimeoutMs,
+  parseDotEnv,
   runScriptCommand,
+  ScriptExecutionError,
   shouldRunOnSaveForFile,
+  usesScriptPlaceholder,
 } from "../../src/scriptRunner";
 
 describe("script runner logic", () => {
@@ -37,12 +46,156 @@ describe("script runner logic", () => {
     assert.strictEqual(command, "runner '/tmp/it'\\''s-file.ts'");
   });
 
+  it("substitutes placeholders with quoted values instead of appending the file", () => {
+    const command = buildScriptCommand(
+      "npx wdio run wdio.conf.ts --spec ${relativeFile} --mochaOpts.grep ${testTitle} # ${line} ${HOME}",
+      "/workspace/test/login.spec.ts",
+      { relativeFile: "test/login.spec.ts", line: 12, testTitle: "login it's fine", workspaceFolder: "/workspace" },
+    );
+    assert.strictEqual(
+      command,
+      "npx wdio run wdio.conf.ts --spec 'test/login.spec.ts' --mochaOpts.grep 'login it'\\''s fine' # '12' ${HOME}",
+    );
+  });
+
+  it("falls back to the file name and directory without a workspace folder", () => {
+    assert.strictEqual(
+      buildScriptCommand("run ${workspaceFolder} ${relativeFile} ${file}", "/tmp/a.ts"),
+      "run '/tmp' 'a.ts' '/tmp/a.ts'",
+    );
+  });
+
   it("executes arbitrary script command and captures stdout", async () => {
     const marker = "script-runner-test-marker";
     const result = await runScriptCommand(`node -e "console.log('${marker}')"`);
     assert.match(result.stdout, new RegExp(marker));
   });
 
+  it("passes extra environment variables to the script", async () => {
+    const result = await runScriptCommand(
+      `node -e "console.log(process.env.SCRIPT_RUNNER_TEST_VAR)"`,
+      undefined,
+      { SCRIPT_RUNNER_TEST_VAR: "env-marker" },
+    );
+    assert.match(result.stdout, /env-marker/);
+  });
+
+  it("streams stdout and stderr chunks while the script runs", async () => {
+    const chunks: string[] = [];
+    await runScriptCommand(
+      `node -e "console.log('out-marker'); console.error('err-marker')"`,
+      undefined,
+      undefined,
+      { onOutput: (stream, chunk) => chunks.push(`${stream}:${chunk.trim()}`) },
+    );
+    assert.deepStrictEqual(chunks.sort(), ["stderr:err-marker", "stdout:out-marker"]);
+  });
+
+  it("kills the whole process tree when the timeout expires", async () => {
+    // The grandchild shares stdout, so the run only settles once it is killed too.
+    const command = `node -e "require('child_process').spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'inherit' }); setInterval(() => {}, 1000)"`;
+    await assert.rejects(
+      runScriptCommand(command, undefined, undefined, { timeoutMs: 300 }),
+      (error: unknown) => error instanceof ScriptExecutionError && error.reason === "timeout",
+    );
+  });
+
+  it("cancels a running script through the abort signal", async () => {
+    const controller = new AbortController();
+    const run = runScriptCommand(`node -e "setInterval(() => {}, 1000)"`, undefined, undefined, {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 200);
+    await assert.rejects(
+      run,
+      (error: unknown) => error instanceof ScriptExecutionError && error.reason === "cancelled",
+    );
+  });
+
+  it("detects whether a command uses a placeholder", () => {
+    assert.strictEqual(usesScriptPlaceholder("npx mocha --grep ${testTitle}", "testTitle"), true);
+    assert.strictEqual(usesScriptPlaceholder("npx mocha ${file}", "testTitle"), false);
+    assert.strictEqual(usesScriptPlaceholder("npx mocha", "file"), false);
+  });
+
+  it("reads the timeout setting in seconds", () => {
+    assert.strictEqual(getConfiguredScriptTimeoutMs(90), 90000);
+    assert.strictEqual(getConfiguredScriptTimeoutMs(0), undefined);
+    assert.throws(() => getConfiguredScriptTimeoutMs(-1), /non-negative number/);
+  });
+
+  it("reads script profiles with defaults", () => {
+    const [profile] = getConfiguredScriptProfiles([
+      { glob: " apps/mobile/** ", command: " npx wdio run wdio.conf.ts ", env: { PLATFORM: "ios" } },
+    ]);
+    assert.deepStrictEqual(profile, {
+      name: "apps/mobile/**",
+      glob: "apps/mobile/**",
+      command: "npx wdio run wdio.conf.ts",
+      cwd: undefined,
+      env: { PLATFORM: "ios" },
+    });
+    assert.deepStrictEqual(getConfiguredScriptProfiles(undefined), []);
+  });
+
+  it("rejects invalid script profiles", () => {
+    assert.throws(() => getConfiguredScriptProfiles({}), /must be an array/);
+    assert.throws(() => getConfiguredScriptProfiles([{ glob: "**" }]), /entry 1 must have non-empty/);
+    assert.throws(
+      () => getConfiguredScriptProfiles([{ glob: "**", command: "x", env: { A: 1 } }]),
+      /'env' must map names to strings/,
+    );
+  });
+
+  it("picks the first profile whose glob matches the relative file path", () => {
+    const profiles = getConfiguredScriptProfiles([
+      { name: "mobile", glob: "apps/mobile/**/*.spec.ts", command: "wdio" },
+      { name: "web", glob: "apps/{web,admin}/**", command: "playwright" },
+      { name: "unit", glob: "**/*.{test,spec}.ts", command: "mocha" },
+    ]);
+    assert.strictEqual(findScriptProfile(profiles, "apps/mobile/specs/login.spec.ts")?.name, "mobile");
+    assert.strictEqual(findScriptProfile(profiles, "apps/admin/e2e/users.spec.ts")?.name, "web");
+    assert.strictEqual(findScriptProfile(profiles, "packages/core/util.test.ts")?.name, "unit");
+    assert.strictEqual(findScriptProfile(profiles, "util.test.ts")?.name, "unit");
+    assert.strictEqual(findScriptProfile(profiles, "packages/core/util.ts"), undefined);
+  });
+
+  it("parses .env files", () => {
+    const env = parseDotEnv(
+      [
+        "# device setup",
+        "DEVICE_NAME=Pixel 7 # emulator",
+        "export APP_PATH='./build/app #1.apk'",
+        'GREETING="hello\\nworld"',
+        'CERT="line one',
+        'line two"',
+        "",
+        "not a variable",
+      ].join("\n"),
+    );
+    assert.deepStrictEqual(env, {
+      DEVICE_NAME: "Pixel 7",
+      APP_PATH: "./build/app #1.apk",
+      GREETING: "hello\nworld",
+      CERT: "line one\nline two",
+    });
+  });
+
+  it("validates the env setting", () => {
+    assert.deepStrictEqual(getConfiguredScriptEnv({ DEVICE_NAME: "Pixel 7" }), { DEVICE_NAME: "Pixel 7" });
+    assert.deepStrictEqual(getConfiguredScriptEnv(undefined), {});
+    assert.throws(() => getConfiguredScriptEnv({ PORT: 4723 }), /scriptRunner.env' must map names to strings/);
+  });
+
+  it("masks env values whose names match a mask pattern", () => {
+    const patterns = getConfiguredMaskPatterns(["*TOKEN*", "api_key"]);
+    assert.deepStrictEqual(
+      formatScriptEnvForLog({ GITHUB_TOKEN: "abc", DEVICE_NAME: "Pixel", API_KEY: "xyz" }, patterns),
+      ["API_KEY=***", "DEVICE_NAME=Pixel", "GITHUB_TOKEN=***"],
+    );
+    assert.throws(() => getConfiguredMaskPatterns("*TOKEN*"), /must be an array of strings/);
+  });
+
   it("runs on save for all extensions when extension list is empty", () => {
     assert.strictEqual(shouldRunOnSaveForFile("/workspace/a.ts", []), true);
     assert.strictEqual(shouldRunOnSaveForFile("/workspace/b.js", []), true);
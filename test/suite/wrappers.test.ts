@@ -0,0 +1,74 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, beforeEach, describe, it } from "mocha";
+import { clearWrapperCache, discoverWrapperFunctions } from "../../src/wrappers";
+
+const PROTECTED_FUNCTIONS = ["describe", "it", "it.*", "step"];
+
+describe("test wrapper discovery", () => {
+  let rootDir: string;
+  let specFile: string;
+
+  before(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "mocha-debug-helper-wrappers-"));
+    fs.mkdirSync(path.join(rootDir, "utils"));
+    fs.mkdirSync(path.join(rootDir, "tests"));
+    fs.writeFileSync(
+      path.join(rootDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { baseUrl: ".", paths: { "@utils/*": ["utils/*"] } } }),
+    );
+    fs.writeFileSync(
+      path.join(rootDir, "utils", "mocha.ts"),
+      [
+        "export const test = (title: string, fn: () => Promise<void>) => it(title, fn);",
+        "export function scenario(title: string, fn: () => Promise<void>) {",
+        "  return test(title, fn);",
+        "}",
+        "export const focused = it.only;",
+        "export function log(message: string) {",
+        "  console.log(message);",
+        "}",
+      ].join("\n"),
+    );
+    fs.writeFileSync(
+      path.join(rootDir, "utils", "cycle.ts"),
+      [
+        "import { again } from './cycle';",
+        "export function again(title: string) {",
+        "  return again(title);",
+        "}",
+      ].join("\n"),
+    );
+    specFile = path.join(rootDir, "tests", "login.spec.ts");
+  });
+
+  beforeEach(() => {
+    clearWrapperCache();
+  });
+
+  after(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("finds wrappers imported through tsconfig paths and relative imports", () => {
+    const text = [
+      "import { test, scenario as flow, focused, log } from '@utils/mocha';",
+      "import { again } from '../utils/cycle';",
+      "describe('x', () => {});",
+    ].join("\n");
+
+    assert.deepStrictEqual(
+      discoverWrapperFunctions(specFile, text, PROTECTED_FUNCTIONS, rootDir).sort(),
+      ["flow", "focused", "test"],
+    );
+  });
+
+  it("returns no wrappers when nothing is imported", () => {
+    assert.deepStrictEqual(
+      discoverWrapperFunctions(specFile, "describe('x', () => {});", PROTECTED_FUNCTIONS, rootDir),
+      [],
+    );
+  });
+});